@@ -0,0 +1,101 @@
+import { db } from "@/drizzle/db"
+import { InterviewTable } from "@/drizzle/schema"
+import { insertInterviewMessage } from "@/features/interviewMessages/db"
+import { getInterviewIdTag } from "@/features/interviews/dbCache"
+import { getInterviewMessages } from "@/features/interviews/transcript"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { generateAiInterviewerReply } from "@/services/ai/interviews"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { eq } from "drizzle-orm"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import z from "zod"
+
+const schema = z.object({
+  prompt: z.string().trim(),
+  interviewId: z.string().min(1),
+})
+
+export async function POST(req: Request) {
+  const body = await req.json()
+  const result = schema.safeParse(body)
+
+  if (!result.success) {
+    return new Response("Error generating the interviewer's reply", {
+      status: 400,
+    })
+  }
+
+  const { prompt: answer, interviewId } = result.data
+  const { userId, user } = await getCurrentUser({ allData: true })
+
+  if (userId == null || user == null) {
+    return new Response("You are not logged in", { status: 401 })
+  }
+
+  const interview = await getInterview(interviewId, userId)
+  if (interview == null || interview.mode !== "text") {
+    return new Response("You do not have permission to do this", {
+      status: 403,
+    })
+  }
+
+  const previousMessages = await getInterviewMessages(interview.id)
+  // Only the interviewer's opening message is requested without an answer
+  if ((answer === "") !== (previousMessages.length === 0)) {
+    return new Response("Error generating the interviewer's reply", {
+      status: 400,
+    })
+  }
+
+  if (answer !== "") {
+    await insertInterviewMessage(
+      { interviewId: interview.id, speaker: "interviewee", text: answer },
+      { jobInfoId: interview.jobInfo.id }
+    )
+  }
+
+  const res = generateAiInterviewerReply({
+    transcript:
+      answer === ""
+        ? previousMessages
+        : [...previousMessages, { speaker: "interviewee", text: answer }],
+    interview,
+    jobInfo: interview.jobInfo,
+    userName: user.name,
+    onFinish: async reply => {
+      await insertInterviewMessage(
+        { interviewId: interview.id, speaker: "interviewer", text: reply },
+        { jobInfoId: interview.jobInfo.id }
+      )
+    },
+  })
+
+  return res.toTextStreamResponse()
+}
+
+async function getInterview(id: string, userId: string) {
+  "use cache"
+  cacheTag(getInterviewIdTag(id))
+
+  const interview = await db.query.InterviewTable.findFirst({
+    where: eq(InterviewTable.id, id),
+    with: {
+      jobInfo: {
+        columns: {
+          id: true,
+          userId: true,
+          description: true,
+          title: true,
+          experienceLevel: true,
+        },
+      },
+    },
+  })
+
+  if (interview == null) return null
+
+  cacheTag(getJobInfoIdTag(interview.jobInfo.id))
+  if (interview.jobInfo.userId !== userId) return null
+
+  return interview
+}
@@ -0,0 +1,145 @@
+import { db } from "@/drizzle/db"
+import { JobInfoTable, QuestionTable } from "@/drizzle/schema"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import {
+  getAdaptiveDifficulty,
+  questionDifficultyModes,
+} from "@/features/questions/adaptiveDifficulty"
+import { getPublicCodingSpec } from "@/features/questions/codingSpec"
+import {
+  getRecentQuestionAttempts,
+  insertQuestion,
+} from "@/features/questions/db"
+import { getQuestionJobInfoTag } from "@/features/questions/dbCache"
+import { queueQuestionTopicClassification } from "@/features/questions/topicClassification"
+import { questionTopicSchema } from "@/features/questions/topics"
+import { formatCodingQuestionAsMarkdown } from "@/features/questions/formatters"
+import { generateAiCodingQuestion } from "@/services/ai/questions"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { AiCodingQuestion } from "@/services/ai/questionSchemas"
+import {
+  createDataStreamResponse,
+  DeepPartial,
+  formatDataStreamPart,
+} from "ai"
+import { and, asc, eq } from "drizzle-orm"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import z from "zod"
+
+const schema = z.object({
+  prompt: z.enum(questionDifficultyModes),
+  jobInfoId: z.string().min(1),
+  topic: questionTopicSchema.optional(),
+})
+
+export async function POST(req: Request) {
+  const body = await req.json()
+  const result = schema.safeParse(body)
+
+  if (!result.success) {
+    return new Response("Error generating your question", { status: 400 })
+  }
+
+  const { prompt: difficultyMode, jobInfoId, topic } = result.data
+  const { userId } = await getCurrentUser()
+
+  if (userId == null) {
+    return new Response("You are not logged in", { status: 401 })
+  }
+
+  const jobInfo = await getJobInfo(jobInfoId, userId)
+  if (jobInfo == null) {
+    return new Response("You do not have permission to do this", {
+      status: 403,
+    })
+  }
+
+  const previousQuestions = await getCodingQuestions(jobInfoId)
+  const { difficulty, reason: difficultyReason } =
+    difficultyMode === "adaptive"
+      ? getAdaptiveDifficulty(await getRecentQuestionAttempts(jobInfoId))
+      : { difficulty: difficultyMode, reason: null }
+
+  return createDataStreamResponse({
+    execute: async dataStream => {
+      dataStream.writeData({ difficulty, difficultyReason })
+
+      const res = generateAiCodingQuestion({
+        previousQuestions,
+        jobInfo,
+        difficulty,
+        topic,
+      })
+
+      // Only the markdown of the question is streamed, since the partial
+      // objects would reveal the hidden test cases
+      let streamedText = ""
+      for await (const partialQuestion of res.partialObjectStream) {
+        const text = formatStreamingCodingQuestion(partialQuestion)
+        if (text.length <= streamedText.length) continue
+        if (!text.startsWith(streamedText)) continue
+
+        dataStream.write(
+          formatDataStreamPart("text", text.slice(streamedText.length))
+        )
+        streamedText = text
+      }
+
+      const question = await res.object
+      const text = formatCodingQuestionAsMarkdown(question)
+      const { id } = await insertQuestion({
+        text,
+        jobInfoId,
+        difficulty,
+        difficultyReason,
+        topic,
+        type: "coding",
+        codingSpec: question,
+      })
+
+      // The id is only sent once the question exists, so answers can't be
+      // submitted for a question that was never saved
+      dataStream.writeData({
+        questionId: id,
+        codingSpec: getPublicCodingSpec(question),
+      })
+      if (topic == null) {
+        queueQuestionTopicClassification({ id, jobInfoId, text })
+      }
+    },
+  })
+}
+
+// The markdown of a question only grows while it streams, except for the
+// fence closing the signature, which is left off until the question is done
+function formatStreamingCodingQuestion(
+  question: DeepPartial<AiCodingQuestion>
+) {
+  const markdown = formatCodingQuestionAsMarkdown(question)
+  return question.signature == null
+    ? markdown
+    : markdown.replace(/\n```$/, "")
+}
+
+async function getCodingQuestions(jobInfoId: string) {
+  "use cache"
+  cacheTag(getQuestionJobInfoTag(jobInfoId))
+
+  return db.query.QuestionTable.findMany({
+    columns: { text: true },
+    where: and(
+      eq(QuestionTable.jobInfoId, jobInfoId),
+      eq(QuestionTable.type, "coding")
+    ),
+    orderBy: asc(QuestionTable.createdAt),
+  })
+}
+
+async function getJobInfo(id: string, userId: string) {
+  "use cache"
+  cacheTag(getJobInfoIdTag(id))
+
+  return db.query.JobInfoTable.findFirst({
+    where: and(eq(JobInfoTable.id, id), eq(JobInfoTable.userId, userId)),
+  })
+}
@@ -1,7 +1,18 @@
 import { db } from "@/drizzle/db"
-import { QuestionTable } from "@/drizzle/schema"
+import { QuestionSessionTable, QuestionTable } from "@/drizzle/schema"
 import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { insertQuestionAttempt } from "@/features/questionAttempts/db"
+import { formatQuestionFeedbackAsMarkdown } from "@/features/questionAttempts/formatters"
+import {
+  getUnusedQuestionHints,
+  markQuestionHintsUsed,
+} from "@/features/questionHints/db"
+import { recordQuestionReview } from "@/features/questionReviews/db"
+import { codeTestOutputSchema } from "@/features/questions/codeRunner/schemas"
+import { getCodingTestResults } from "@/features/questions/codingSpec"
 import { getQuestionIdTag } from "@/features/questions/dbCache"
+import { getQuestionSessionIdTag } from "@/features/questionSessions/dbCache"
+import { applyHintPenalty } from "@/features/questions/hints"
 import { generateAiQuestionFeedback } from "@/services/ai/questions"
 import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
 import { eq } from "drizzle-orm"
@@ -11,6 +22,10 @@ import z from "zod"
 const schema = z.object({
   prompt: z.string().min(1),
   questionId: z.string().min(1),
+  testOutputs: z.array(codeTestOutputSchema).optional(),
+  sessionId: z.string().min(1).optional(),
+  practiceId: z.string().uuid().optional(),
+  timeSpentSeconds: z.number().int().min(0).optional(),
 })
 
 export async function POST(req: Request) {
@@ -21,7 +36,14 @@ export async function POST(req: Request) {
     return new Response("Error generating your feedback", { status: 400 })
   }
 
-  const { prompt: answer, questionId } = result.data
+  const {
+    prompt: answer,
+    questionId,
+    testOutputs,
+    sessionId,
+    practiceId,
+    timeSpentSeconds,
+  } = result.data
   const { userId } = await getCurrentUser()
 
   if (userId == null) {
@@ -35,12 +57,66 @@ export async function POST(req: Request) {
     })
   }
 
+  if (sessionId != null) {
+    const session = await getQuestionSession(sessionId)
+    if (
+      session == null ||
+      session.jobInfoId !== question.jobInfo.id ||
+      session.completedAt != null
+    ) {
+      return new Response("This practice session is not available", {
+        status: 403,
+      })
+    }
+  }
+
+  // Hints can only be requested during a try the client started
+  const hints =
+    practiceId == null
+      ? []
+      : await getUnusedQuestionHints(question.id, practiceId)
+  const hintsUsed = hints.length
+
   const res = generateAiQuestionFeedback({
     question: question.text,
     answer,
+    kind: question.kind,
+    hintsUsed,
+    codingLanguage: question.codingSpec?.language,
+    // The client only reports what the code returned, so a coding answer
+    // without outputs is graded as failing every test
+    testResults:
+      question.codingSpec == null
+        ? undefined
+        : getCodingTestResults(question.codingSpec, testOutputs ?? []),
+    onFinish: async aiFeedback => {
+      const feedback = {
+        ...aiFeedback,
+        rating: applyHintPenalty(aiFeedback.rating, hintsUsed),
+      }
+
+      const attempt = await insertQuestionAttempt(
+        {
+          questionId: question.id,
+          answer,
+          feedback: formatQuestionFeedbackAsMarkdown(feedback),
+          structuredFeedback: feedback,
+          rating: feedback.rating,
+          hintsUsed,
+          sessionId,
+          timeSpentSeconds,
+        },
+        { jobInfoId: question.jobInfo.id }
+      )
+      await markQuestionHintsUsed(hints.map(hint => hint.id), attempt.id)
+      await recordQuestionReview(question.id, feedback.rating, {
+        jobInfoId: question.jobInfo.id,
+        userId,
+      })
+    },
   })
 
-  return res.toDataStreamResponse({ sendUsage: false })
+  return res.toTextStreamResponse()
 }
 
 async function getQuestion(id: string, userId: string) {
@@ -58,3 +134,13 @@ async function getQuestion(id: string, userId: string) {
   if (question.jobInfo.userId !== userId) return null
   return question
 }
+
+async function getQuestionSession(id: string) {
+  "use cache"
+  cacheTag(getQuestionSessionIdTag(id))
+
+  return db.query.QuestionSessionTable.findFirst({
+    columns: { jobInfoId: true, completedAt: true },
+    where: eq(QuestionSessionTable.id, id),
+  })
+}
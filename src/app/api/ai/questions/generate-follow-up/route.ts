@@ -0,0 +1,103 @@
+import { db } from "@/drizzle/db"
+import { QuestionAttemptTable, QuestionTable } from "@/drizzle/schema"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { getQuestionAttemptQuestionTag } from "@/features/questionAttempts/dbCache"
+import { insertQuestion } from "@/features/questions/db"
+import { getQuestionIdTag } from "@/features/questions/dbCache"
+import { generateAiFollowUpQuestion } from "@/services/ai/questions"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { createDataStreamResponse } from "ai"
+import { desc, eq } from "drizzle-orm"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import z from "zod"
+
+const schema = z.object({
+  prompt: z.string().min(1),
+})
+
+export async function POST(req: Request) {
+  const body = await req.json()
+  const result = schema.safeParse(body)
+
+  if (!result.success) {
+    return new Response("Error generating your question", { status: 400 })
+  }
+
+  const { prompt: parentQuestionId } = result.data
+  const { userId } = await getCurrentUser()
+
+  if (userId == null) {
+    return new Response("You are not logged in", { status: 401 })
+  }
+
+  const parentQuestion = await getQuestion(parentQuestionId, userId)
+  if (parentQuestion == null) {
+    return new Response("You do not have permission to do this", {
+      status: 403,
+    })
+  }
+
+  const attempt = parentQuestion.attempts[0]
+  if (attempt == null) {
+    return new Response("Answer the question before asking for a follow-up", {
+      status: 400,
+    })
+  }
+
+  return createDataStreamResponse({
+    execute: async dataStream => {
+      const res = generateAiFollowUpQuestion({
+        jobInfo: parentQuestion.jobInfo,
+        question: parentQuestion.text,
+        answer: attempt.answer,
+        feedback: attempt.feedback,
+        kind: parentQuestion.kind,
+        onFinish: async question => {
+          const { id } = await insertQuestion({
+            text: question,
+            jobInfoId: parentQuestion.jobInfoId,
+            parentQuestionId: parentQuestion.id,
+            difficulty: parentQuestion.difficulty,
+            kind: parentQuestion.kind,
+            topic: parentQuestion.topic,
+          })
+
+          dataStream.writeData({ questionId: id })
+        },
+      })
+      res.mergeIntoDataStream(dataStream, { sendUsage: false })
+    },
+  })
+}
+
+async function getQuestion(id: string, userId: string) {
+  "use cache"
+  cacheTag(getQuestionIdTag(id))
+  cacheTag(getQuestionAttemptQuestionTag(id))
+
+  const question = await db.query.QuestionTable.findFirst({
+    where: eq(QuestionTable.id, id),
+    with: {
+      jobInfo: {
+        columns: {
+          id: true,
+          userId: true,
+          title: true,
+          description: true,
+          experienceLevel: true,
+        },
+      },
+      attempts: {
+        columns: { answer: true, feedback: true },
+        orderBy: desc(QuestionAttemptTable.createdAt),
+        limit: 1,
+      },
+    },
+  })
+
+  if (question == null) return null
+  cacheTag(getJobInfoIdTag(question.jobInfo.id))
+
+  if (question.jobInfo.userId !== userId) return null
+  return question
+}
@@ -0,0 +1,90 @@
+import { db } from "@/drizzle/db"
+import { QuestionTable } from "@/drizzle/schema"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import {
+  deleteQuestionHint,
+  getUnusedQuestionHints,
+  reserveQuestionHint,
+  updateQuestionHint,
+} from "@/features/questionHints/db"
+import { getQuestionIdTag } from "@/features/questions/dbCache"
+import { MAX_QUESTION_HINTS } from "@/features/questions/hints"
+import { generateAiQuestionHint } from "@/services/ai/questions"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { eq } from "drizzle-orm"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import z from "zod"
+
+const schema = z.object({
+  prompt: z.string(),
+  questionId: z.string().min(1),
+  practiceId: z.string().uuid(),
+})
+
+export async function POST(req: Request) {
+  const body = await req.json()
+  const result = schema.safeParse(body)
+
+  if (!result.success) {
+    return new Response("Error generating your hint", { status: 400 })
+  }
+
+  const { prompt: answer, questionId, practiceId } = result.data
+  const { userId } = await getCurrentUser()
+
+  if (userId == null) {
+    return new Response("You are not logged in", { status: 401 })
+  }
+
+  const question = await getQuestion(questionId, userId)
+  if (question == null) {
+    return new Response("You do not have permission to do this", {
+      status: 403,
+    })
+  }
+
+  // Hints are counted on the server so the limit and the rating penalty
+  // can't be bypassed by the client
+  const previousHints = await getUnusedQuestionHints(question.id, practiceId)
+  const reservedHint = await reserveQuestionHint(
+    { questionId: question.id, practiceId },
+    { maxHints: MAX_QUESTION_HINTS }
+  )
+  if (reservedHint == null) {
+    return new Response("You have used all hints for this question", {
+      status: 403,
+    })
+  }
+
+  const res = generateAiQuestionHint({
+    question: question.text,
+    answer,
+    previousHints: previousHints.flatMap(hint => hint.text ?? []),
+    kind: question.kind,
+    onFinish: async hint => {
+      await updateQuestionHint(reservedHint.id, { text: hint })
+    },
+    // A hint that was never given should not count towards the limit
+    onError: async () => {
+      await deleteQuestionHint(reservedHint.id)
+    },
+  })
+
+  return res.toTextStreamResponse()
+}
+
+async function getQuestion(id: string, userId: string) {
+  "use cache"
+  cacheTag(getQuestionIdTag(id))
+
+  const question = await db.query.QuestionTable.findFirst({
+    where: eq(QuestionTable.id, id),
+    with: { jobInfo: { columns: { id: true, userId: true } } },
+  })
+
+  if (question == null) return null
+  cacheTag(getJobInfoIdTag(question.jobInfo.id))
+
+  if (question.jobInfo.userId !== userId) return null
+  return question
+}
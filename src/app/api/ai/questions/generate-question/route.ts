@@ -1,13 +1,23 @@
 import { db } from "@/drizzle/db"
 import {
   JobInfoTable,
-  questionDifficulties,
+  QuestionKind,
+  questionKinds,
   QuestionTable,
 } from "@/drizzle/schema"
 import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
-import { insertQuestion } from "@/features/questions/db"
+import {
+  getAdaptiveDifficulty,
+  questionDifficultyModes,
+} from "@/features/questions/adaptiveDifficulty"
+import {
+  getRecentQuestionAttempts,
+  insertQuestion,
+} from "@/features/questions/db"
 import { getQuestionJobInfoTag } from "@/features/questions/dbCache"
+import { questionTopicSchema } from "@/features/questions/topics"
 import { canCreateQuestion } from "@/features/questions/permissions"
+import { queueQuestionTopicClassification } from "@/features/questions/topicClassification"
 import { generateAiQuestion } from "@/services/ai/questions"
 import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
 import { createDataStreamResponse } from "ai"
@@ -16,8 +26,10 @@ import { cacheTag } from "next/dist/server/use-cache/cache-tag"
 import z from "zod"
 
 const schema = z.object({
-  prompt: z.enum(questionDifficulties),
+  prompt: z.enum(questionDifficultyModes),
   jobInfoId: z.string().min(1),
+  kind: z.enum(questionKinds).default("technical"),
+  topic: questionTopicSchema.optional(),
 })
 
 export async function POST(req: Request) {
@@ -28,7 +40,7 @@ export async function POST(req: Request) {
     return new Response("Error generating your question", { status: 400 })
   }
 
-  const { prompt: difficulty, jobInfoId } = result.data
+  const { prompt: difficultyMode, jobInfoId, kind, topic } = result.data
   const { userId } = await getCurrentUser()
 
   if (userId == null) {
@@ -44,22 +56,36 @@ export async function POST(req: Request) {
     })
   }
 
-  const previousQuestions = await getQuestions(jobInfoId)
+  const previousQuestions = await getQuestions(jobInfoId, kind)
+  const { difficulty, reason: difficultyReason } =
+    difficultyMode === "adaptive"
+      ? getAdaptiveDifficulty(await getRecentQuestionAttempts(jobInfoId))
+      : { difficulty: difficultyMode, reason: null }
 
   return createDataStreamResponse({
     execute: async dataStream => {
+      dataStream.writeData({ difficulty, difficultyReason })
+
       const res = generateAiQuestion({
         previousQuestions,
         jobInfo,
         difficulty,
+        kind,
+        topic,
         onFinish: async question => {
           const { id } = await insertQuestion({
             text: question,
             jobInfoId,
             difficulty,
+            difficultyReason,
+            kind,
+            topic,
           })
 
           dataStream.writeData({ questionId: id })
+          if (topic == null) {
+            queueQuestionTopicClassification({ id, jobInfoId, text: question })
+          }
         },
       })
       res.mergeIntoDataStream(dataStream, { sendUsage: false })
@@ -67,12 +93,16 @@ export async function POST(req: Request) {
   })
 }
 
-async function getQuestions(jobInfoId: string) {
+async function getQuestions(jobInfoId: string, kind: QuestionKind) {
   "use cache"
   cacheTag(getQuestionJobInfoTag(jobInfoId))
 
   return db.query.QuestionTable.findMany({
-    where: eq(QuestionTable.jobInfoId, jobInfoId),
+    where: and(
+      eq(QuestionTable.jobInfoId, jobInfoId),
+      eq(QuestionTable.type, "standard"),
+      eq(QuestionTable.kind, kind)
+    ),
     orderBy: asc(QuestionTable.createdAt),
   })
 }
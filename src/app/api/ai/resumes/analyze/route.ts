@@ -1,6 +1,7 @@
 import { db } from "@/drizzle/db"
 import { JobInfoTable } from "@/drizzle/schema"
 import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { insertResumeAnalysis } from "@/features/resumeAnalyses/db"
 import { canRunResumeAnalysis } from "@/features/resumeAnalyses/permissions"
 import { analyzeResumeForJob } from "@/services/ai/resumes/ai"
 import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
@@ -51,6 +52,14 @@ export async function POST(req: Request) {
   const res = await analyzeResumeForJob({
     resumeFile,
     jobInfo,
+    onFinish: async analysis => {
+      await insertResumeAnalysis({
+        jobInfoId: jobInfo.id,
+        fileName: resumeFile.name,
+        overallScore: analysis.overallScore,
+        analysis,
+      })
+    },
   })
 
   return res.toTextStreamResponse()
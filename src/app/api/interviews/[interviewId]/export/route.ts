@@ -0,0 +1,86 @@
+import { db } from "@/drizzle/db"
+import { InterviewTable } from "@/drizzle/schema"
+import { getInterviewIdTag } from "@/features/interviews/dbCache"
+import {
+  getInterviewExport,
+  interviewExportFormats,
+  renderInterviewExport,
+} from "@/features/interviews/export"
+import { getInterviewTranscript } from "@/features/interviews/transcript"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { eq } from "drizzle-orm"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import { NextRequest } from "next/server"
+import z from "zod"
+
+const formatSchema = z.enum(interviewExportFormats)
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ interviewId: string }> }
+) {
+  const { interviewId } = await params
+  const result = formatSchema.safeParse(req.nextUrl.searchParams.get("format"))
+
+  if (!result.success) {
+    return new Response("Invalid export format", { status: 400 })
+  }
+
+  const { userId, user } = await getCurrentUser({ allData: true })
+  if (userId == null || user == null) {
+    return new Response("You are not logged in", { status: 401 })
+  }
+
+  const interview = await getInterview(interviewId, userId)
+  if (interview == null) {
+    return new Response("You do not have permission to do this", {
+      status: 403,
+    })
+  }
+
+  let transcript
+  try {
+    transcript = await getInterviewTranscript(interview)
+  } catch {
+    return new Response("The transcript could not be loaded, try again later", {
+      status: 503,
+    })
+  }
+
+  const { body, contentType, extension } = renderInterviewExport(
+    getInterviewExport({
+      interview,
+      transcript: transcript ?? [],
+      userName: user.name,
+    }),
+    result.data
+  )
+  const fileName = `interview-${interview.createdAt.toISOString().slice(0, 10)}.${extension}`
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    },
+  })
+}
+
+async function getInterview(id: string, userId: string) {
+  "use cache"
+  cacheTag(getInterviewIdTag(id))
+
+  const interview = await db.query.InterviewTable.findFirst({
+    where: eq(InterviewTable.id, id),
+    with: {
+      jobInfo: { columns: { id: true, userId: true, name: true, title: true } },
+    },
+  })
+
+  if (interview == null) return null
+
+  cacheTag(getJobInfoIdTag(interview.jobInfo.id))
+  if (interview.jobInfo.userId !== userId) return null
+
+  return interview
+}
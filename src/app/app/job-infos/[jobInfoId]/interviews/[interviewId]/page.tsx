@@ -6,11 +6,12 @@ import { db } from "@/drizzle/db"
 import { InterviewTable } from "@/drizzle/schema"
 import { getInterviewIdTag } from "@/features/interviews/dbCache"
 import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
-import { formatDateTime } from "@/lib/formatters"
+import { formatDateTime, formatDuration } from "@/lib/formatters"
 import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
 import { eq } from "drizzle-orm"
 import { cacheTag } from "next/dist/server/use-cache/cache-tag"
 import { notFound } from "next/navigation"
+import Link from "next/link"
 import {
   Dialog,
   DialogTrigger,
@@ -18,13 +19,34 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { MarkdownRenderer } from "@/components/MarkdownRenderer"
-import { Loader2Icon } from "lucide-react"
+import { Loader2Icon, PhoneIcon, RotateCcwIcon } from "lucide-react"
 import { Suspense } from "react"
 import { CondensedMessages } from "@/services/hume/components/CondensedMessages"
-import { condenseChatMessages } from "@/services/hume/lib/condenseChatMessages"
-import { fetchChatMessages } from "@/services/hume/lib/api"
 import { ActionButton } from "@/components/ui/action-button"
 import { generateInterviewFeedback } from "@/features/interviews/actions"
+import { InterviewScores } from "@/features/interviews/components/InterviewScores"
+import { InterviewEmotionSummary } from "@/features/interviews/components/InterviewEmotionSummary"
+import { InterviewPacing } from "@/features/interviews/components/InterviewPacing"
+import { InterviewExportMenu } from "@/features/interviews/components/InterviewExportMenu"
+import { InterviewDelivery } from "@/features/interviews/components/InterviewDelivery"
+import { analyzeInterviewDelivery } from "@/features/interviews/deliveryAnalysis"
+import { InterviewFeedbackStatusBadge } from "@/features/interviews/components/InterviewFeedbackStatusBadge"
+import { InterviewFeedbackRefresher } from "@/features/interviews/components/InterviewFeedbackRefresher"
+import { InterviewTranscriptError } from "@/features/interviews/components/InterviewTranscriptError"
+import { getInterviewFeedbackStatus } from "@/features/interviews/feedback"
+import { isInterviewResumable } from "@/features/interviews/resume"
+import {
+  condenseInterviewTranscript,
+  getInterviewTranscript,
+  InterviewTranscriptMessage,
+} from "@/features/interviews/transcript"
+import {
+  getEmotionBreakdownMessageIndexes,
+  getInterviewMessageKey,
+  InterviewEmotionAnalysis,
+} from "@/features/interviews/emotionAnalysis"
+import { EmotionTimeline } from "@/features/interviews/components/EmotionTimeline"
+import { EmotionalStateBadge } from "@/features/interviews/components/EmotionalStateBadge"
 
 export default async function InterviewPage({
   params,
@@ -63,34 +85,76 @@ export default async function InterviewPage({
               <SuspendedItem
                 item={interview}
                 fallback={<Skeleton className="w-24" />}
-                result={i => i.duration}
+                result={i => formatDuration(i.durationSeconds)}
               />
             </p>
           </div>
-          <SuspendedItem
-            item={interview}
-            fallback={<SkeletonButton className="w-32" />}
-            result={i =>
-              i.feedback == null ? (
-                <ActionButton
-                  action={generateInterviewFeedback.bind(null, i.id)}
-                >
-                  Generate Feedback
-                </ActionButton>
-              ) : (
-                <Dialog>
-                  <DialogTrigger asChild>
-                    <Button>View Feedback</Button>
-                  </DialogTrigger>
-                  <DialogContent className="md:max-w-3xl lg:max-w-4xl max-h-[calc(100%-2rem)] overflow-y-auto flex flex-col">
-                    <DialogTitle>Feedback</DialogTitle>
-                    <MarkdownRenderer>{i.feedback}</MarkdownRenderer>
-                  </DialogContent>
-                </Dialog>
-              )
-            }
-          />
+          <div className="flex gap-2 items-start">
+            <SuspendedItem
+              item={interview}
+              fallback={null}
+              result={i =>
+                isInterviewResumable(i) ? (
+                  <Button variant="outline" asChild>
+                    <Link
+                      href={`/app/job-infos/${jobInfoId}/interviews/new?resume=${i.id}`}
+                    >
+                      <PhoneIcon />
+                      Resume Interview
+                    </Link>
+                  </Button>
+                ) : null
+              }
+            />
+            <InterviewExportMenu interviewId={interviewId} />
+            <SuspendedItem
+              item={interview}
+              fallback={<SkeletonButton className="w-32" />}
+              result={i =>
+                i.feedback == null ? (
+                  <FeedbackStatus interview={i} />
+                ) : (
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button>View Feedback</Button>
+                    </DialogTrigger>
+                    <DialogContent className="md:max-w-3xl lg:max-w-4xl max-h-[calc(100%-2rem)] overflow-y-auto flex flex-col">
+                      <DialogTitle>Feedback</DialogTitle>
+                      <MarkdownRenderer>{i.feedback}</MarkdownRenderer>
+                    </DialogContent>
+                  </Dialog>
+                )
+              }
+            />
+          </div>
         </div>
+        <SuspendedItem
+          item={interview}
+          fallback={null}
+          result={i =>
+            i.structuredFeedback == null ? null : (
+              <InterviewScores feedback={i.structuredFeedback} />
+            )
+          }
+        />
+        <SuspendedItem
+          item={interview}
+          fallback={null}
+          result={i =>
+            i.emotionAnalysis == null ? null : (
+              <InterviewEmotionSummary analysis={i.emotionAnalysis} />
+            )
+          }
+        />
+        <SuspendedItem
+          item={interview}
+          fallback={null}
+          result={i =>
+            i.pacingMetrics == null ? null : (
+              <InterviewPacing metrics={i.pacingMetrics} />
+            )
+          }
+        />
         <Suspense
           fallback={<Loader2Icon className="animate-spin size-24 mx-auto" />}
         >
@@ -101,27 +165,166 @@ export default async function InterviewPage({
   )
 }
 
+function FeedbackStatus({
+  interview,
+}: {
+  interview: Pick<
+    typeof InterviewTable.$inferSelect,
+    "id" | "feedbackStatus" | "updatedAt"
+  >
+}) {
+  const status = getInterviewFeedbackStatus(interview)
+
+  if (status === "pending" || status === "processing") {
+    return (
+      <>
+        <Button disabled>
+          <Loader2Icon className="animate-spin" />
+          Generating Feedback
+        </Button>
+        <InterviewFeedbackRefresher />
+      </>
+    )
+  }
+
+  const action = generateInterviewFeedback.bind(null, interview.id)
+
+  if (status === "failed") {
+    return (
+      <div className="flex items-center gap-2">
+        <InterviewFeedbackStatusBadge status={status} />
+        <ActionButton action={action}>
+          <RotateCcwIcon />
+          Retry
+        </ActionButton>
+      </div>
+    )
+  }
+
+  return <ActionButton action={action}>Generate Feedback</ActionButton>
+}
+
 async function Messages({
   interview,
 }: {
-  interview: Promise<{ humeChatId: string | null }>
+  interview: Promise<typeof InterviewTable.$inferSelect>
 }) {
   const { user, redirectToSignIn } = await getCurrentUser({ allData: true })
   if (user == null) return redirectToSignIn()
-  const { humeChatId } = await interview
-  if (humeChatId == null) return notFound()
 
-  const condensedMessages = condenseChatMessages(
-    await fetchChatMessages(humeChatId)
+  const interviewData = await interview
+  // Voice transcripts may have to be fetched from Hume, which can fail even
+  // after retrying, so show an error instead of failing the whole page
+  let transcript: InterviewTranscriptMessage[] | null
+  try {
+    transcript = await getInterviewTranscript(interviewData)
+  } catch {
+    return <InterviewTranscriptError />
+  }
+  if (transcript == null) return notFound()
+
+  const { emotionAnalysis } = interviewData
+  const condensedMessages = condenseInterviewTranscript(transcript)
+  const breakdown = getMessageEmotionBreakdown(transcript, emotionAnalysis)
+  const getBubbleBreakdown = (messageIndexes: number[]) =>
+    breakdown.filter(({ messageIndex }) =>
+      messageIndexes.includes(messageIndex)
+    )
+
+  const timelinePoints = breakdown.flatMap(entry => {
+    const bubbleIndex = condensedMessages.findIndex(message =>
+      message.messageIndexes.includes(entry.messageIndex)
+    )
+    if (bubbleIndex === -1) return []
+
+    return [{ ...entry, targetId: getMessageElementId(bubbleIndex) }]
+  })
+
+  const deliveryAnalysis = analyzeInterviewDelivery(
+    transcript,
+    interviewData.mode
   )
 
   return (
-    <CondensedMessages
-      messages={condensedMessages}
-      user={user}
-      className="max-w-5xl mx-auto"
-    />
+    <div className="space-y-6">
+      {transcript.some(({ speaker }) => speaker === "interviewee") && (
+        <InterviewDelivery analysis={deliveryAnalysis} />
+      )}
+      {emotionAnalysis != null && timelinePoints.length > 0 && (
+        <EmotionTimeline
+          points={timelinePoints}
+          emotions={emotionAnalysis.dominantEmotions
+            .map(({ emotion }) => emotion)
+            .filter(
+              emotion => emotion !== "confidence" && emotion !== "calmness"
+            )
+            .slice(0, 2)}
+        />
+      )}
+      <CondensedMessages
+        messages={condensedMessages.map((message, index) => {
+          const states = new Set(
+            getBubbleBreakdown(message.messageIndexes).map(
+              ({ emotionalState }) => emotionalState
+            )
+          )
+
+          return {
+            ...message,
+            id: getMessageElementId(index),
+            badge:
+              states.size === 0 ? undefined : (
+                <div className="flex gap-1">
+                  {[...states].map(state => (
+                    <EmotionalStateBadge key={state} state={state} />
+                  ))}
+                </div>
+              ),
+          }
+        })}
+        user={user}
+        className="max-w-5xl mx-auto"
+      />
+    </div>
+  )
+}
+
+function getMessageEmotionBreakdown(
+  transcript: InterviewTranscriptMessage[],
+  emotionAnalysis: InterviewEmotionAnalysis | null
+) {
+  if (emotionAnalysis == null) return []
+
+  const messageIndexesByKey = new Map(
+    transcript.map((message, index) => [getInterviewMessageKey(message), index])
   )
+  // Analyses stored before entries had a message key can only be matched by
+  // position
+  const legacyMessageIndexes = getEmotionBreakdownMessageIndexes(
+    transcript,
+    emotionAnalysis
+  )
+
+  return emotionAnalysis.detailedBreakdown.flatMap((entry, index) => {
+    const messageIndex =
+      entry.messageKey == null
+        ? legacyMessageIndexes[index]
+        : messageIndexesByKey.get(entry.messageKey)
+    if (messageIndex == null) return []
+
+    return [
+      {
+        messageIndex,
+        text: entry.text,
+        emotions: entry.emotions,
+        emotionalState: entry.emotionalState,
+      },
+    ]
+  })
+}
+
+function getMessageElementId(index: number) {
+  return `interview-message-${index}`
 }
 
 async function getInterview(id: string, userId: string) {
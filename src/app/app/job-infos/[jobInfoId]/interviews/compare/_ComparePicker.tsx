@@ -0,0 +1,72 @@
+"use client"
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { InterviewType } from "@/drizzle/schema"
+import { InterviewComparisonSelection } from "@/features/interviews/comparison"
+import { formatInterviewType } from "@/features/interviews/formatters"
+import { formatDateTime } from "@/lib/formatters"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+
+export function ComparePicker({
+  interviews,
+  selection,
+}: {
+  interviews: {
+    id: string
+    createdAt: Date
+    type: InterviewType
+    overallScore: number | null
+  }[]
+  selection: Required<InterviewComparisonSelection>
+}) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  function setInterview(key: keyof InterviewComparisonSelection, id: string) {
+    const params = new URLSearchParams(searchParams)
+    params.set("a", selection.a)
+    params.set("b", selection.b)
+    params.set(key, id)
+
+    router.push(`${pathname}?${params.toString()}`)
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2 items-center">
+      {(["a", "b"] as const).map((key, index) => (
+        <div key={key} className="flex gap-2 items-center">
+          {index > 0 && <span className="text-muted-foreground">vs</span>}
+          <Select
+            value={selection[key]}
+            onValueChange={id => setInterview(key, id)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {interviews.map(interview => (
+                <SelectItem
+                  key={interview.id}
+                  value={interview.id}
+                  disabled={interview.id === selection[key === "a" ? "b" : "a"]}
+                >
+                  {formatDateTime(interview.createdAt)} &bull;{" "}
+                  {formatInterviewType(interview.type)}
+                  {interview.overallScore != null &&
+                    ` (${interview.overallScore}/10)`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  )
+}
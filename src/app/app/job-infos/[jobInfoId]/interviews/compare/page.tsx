@@ -0,0 +1,302 @@
+import { BackLink } from "@/components/BackLink"
+import { Badge } from "@/components/ui/badge"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { db } from "@/drizzle/db"
+import { InterviewTable, InterviewType } from "@/drizzle/schema"
+import {
+  getInterviewComparisonChange,
+  getInterviewComparisonSections,
+  getInterviewKeyQuotes,
+  InterviewComparisonMetric,
+  interviewComparisonSchema,
+  InterviewComparisonSelection,
+} from "@/features/interviews/comparison"
+import { getInterviewJobInfoTag } from "@/features/interviews/dbCache"
+import { formatInterviewType } from "@/features/interviews/formatters"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { formatDateTime } from "@/lib/formatters"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { and, desc, eq, isNotNull, or } from "drizzle-orm"
+import { ArrowDownIcon, ArrowUpIcon, Loader2Icon } from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import Link from "next/link"
+import { Suspense } from "react"
+import { ComparePicker } from "./_ComparePicker"
+
+export default async function CompareInterviewsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ jobInfoId: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const { jobInfoId } = await params
+  const selection = interviewComparisonSchema.parse(await searchParams)
+
+  return (
+    <div className="container py-4 space-y-6">
+      <BackLink href={`/app/job-infos/${jobInfoId}/interviews`}>
+        All Interviews
+      </BackLink>
+
+      <Suspense
+        fallback={<Loader2Icon className="size-24 animate-spin mx-auto" />}
+      >
+        <SuspendedPage jobInfoId={jobInfoId} selection={selection} />
+      </Suspense>
+    </div>
+  )
+}
+
+async function SuspendedPage({
+  jobInfoId,
+  selection,
+}: {
+  jobInfoId: string
+  selection: InterviewComparisonSelection
+}) {
+  const { userId, redirectToSignIn } = await getCurrentUser()
+  if (userId == null) return redirectToSignIn()
+
+  const interviews = await getInterviews(jobInfoId, userId)
+  if (interviews.length < 2) {
+    return (
+      <div className="space-y-4">
+        <h1 className="text-3xl md:text-4xl lg:text-5xl">Compare Interviews</h1>
+        <p className="text-muted-foreground">
+          Complete at least two interviews to compare them.{" "}
+          <Link
+            href={`/app/job-infos/${jobInfoId}/interviews/new`}
+            className="underline"
+          >
+            Start a new interview
+          </Link>
+        </p>
+      </div>
+    )
+  }
+
+  const first =
+    interviews.find(interview => interview.id === selection.a) ?? interviews[1]
+  const second =
+    interviews.find(
+      interview => interview.id === selection.b && interview.id !== first.id
+    ) ?? (first.id === interviews[0].id ? interviews[1] : interviews[0])
+  const [before, after] =
+    first.createdAt <= second.createdAt ? [first, second] : [second, first]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-4 justify-between items-end">
+        <h1 className="text-3xl md:text-4xl lg:text-5xl">Compare Interviews</h1>
+        <ComparePicker
+          interviews={interviews.map(
+            ({ id, createdAt, type, overallScore }) => ({
+              id,
+              createdAt,
+              type,
+              overallScore,
+            })
+          )}
+          selection={{ a: first.id, b: second.id }}
+        />
+      </div>
+
+      {getInterviewComparisonSections(before, after).map(
+        ({ title, notComparableReason, metrics }) => (
+          <Card key={title}>
+            <CardHeader>
+              <CardTitle>{title}</CardTitle>
+              {notComparableReason != null && (
+                <CardDescription>{notComparableReason}</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-muted-foreground text-left">
+                    <th className="font-normal py-2">Metric</th>
+                    <th className="font-normal py-2">
+                      <InterviewLabel
+                        jobInfoId={jobInfoId}
+                        interview={before}
+                      />
+                    </th>
+                    <th className="font-normal py-2">
+                      <InterviewLabel jobInfoId={jobInfoId} interview={after} />
+                    </th>
+                    <th className="font-normal py-2 text-right">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {metrics.map(metric => (
+                    <tr key={metric.label} className="border-t">
+                      <td className="py-2">{metric.label}</td>
+                      <td className="py-2 tabular-nums">
+                        {formatMetricValue(metric.before, metric.unit)}
+                      </td>
+                      <td className="py-2 tabular-nums">
+                        {formatMetricValue(metric.after, metric.unit)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {notComparableReason == null ? (
+                          <ChangeBadge metric={metric} />
+                        ) : (
+                          <span className="text-muted-foreground">
+                            Not comparable
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Key Quotes</CardTitle>
+          <CardDescription>
+            Quotes the feedback used as evidence for each category
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {[before, after].map(interview => {
+            const quotes = getInterviewKeyQuotes(interview)
+
+            return (
+              <div key={interview.id} className="space-y-3">
+                <h3 className="font-semibold">
+                  <InterviewLabel jobInfoId={jobInfoId} interview={interview} />
+                </h3>
+                {quotes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No feedback has been generated for this interview.
+                  </p>
+                ) : (
+                  quotes.map(({ category, quote }) => (
+                    <blockquote
+                      key={category}
+                      className="border-l-2 pl-3 text-sm space-y-1"
+                    >
+                      <p className="italic">&ldquo;{quote}&rdquo;</p>
+                      <p className="text-muted-foreground">{category}</p>
+                    </blockquote>
+                  ))
+                )}
+              </div>
+            )
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function InterviewLabel({
+  jobInfoId,
+  interview,
+}: {
+  jobInfoId: string
+  interview: { id: string; createdAt: Date; type: InterviewType }
+}) {
+  return (
+    <Link
+      href={`/app/job-infos/${jobInfoId}/interviews/${interview.id}`}
+      className="hover:underline"
+    >
+      {formatDateTime(interview.createdAt)} (
+      {formatInterviewType(interview.type)})
+    </Link>
+  )
+}
+
+function ChangeBadge({ metric }: { metric: InterviewComparisonMetric }) {
+  const change = getInterviewComparisonChange(metric)
+  if (change == null) return <span className="text-muted-foreground">-</span>
+
+  const { delta, trend } = change
+  const value = formatMetricValue(Math.abs(delta), metric.unit)
+  const icon =
+    delta > 0 ? <ArrowUpIcon /> : delta < 0 ? <ArrowDownIcon /> : null
+
+  switch (trend) {
+    case "improved":
+      return (
+        <Badge>
+          {icon}
+          {value}
+        </Badge>
+      )
+    case "regressed":
+      return (
+        <Badge variant="destructive">
+          {icon}
+          {value}
+        </Badge>
+      )
+    case "neutral":
+      return (
+        <Badge variant="outline">
+          {icon}
+          {value}
+        </Badge>
+      )
+    default:
+      throw new Error(`Unknown trend: ${trend satisfies never}`)
+  }
+}
+
+function formatMetricValue(
+  value: number | null,
+  unit: InterviewComparisonMetric["unit"]
+) {
+  if (value == null) return "-"
+
+  switch (unit) {
+    case "score":
+      return `${value}/10`
+    case "percent":
+      return `${Math.round(value * 100)}%`
+    case "seconds":
+      return `${value}s`
+    default:
+      throw new Error(`Unknown unit: ${unit satisfies never}`)
+  }
+}
+
+async function getInterviews(jobInfoId: string, userId: string) {
+  "use cache"
+  cacheTag(getInterviewJobInfoTag(jobInfoId))
+  cacheTag(getJobInfoIdTag(jobInfoId))
+
+  const data = await db.query.InterviewTable.findMany({
+    columns: {
+      id: true,
+      createdAt: true,
+      type: true,
+      mode: true,
+      overallScore: true,
+      structuredFeedback: true,
+      emotionAnalysis: true,
+      pacingMetrics: true,
+    },
+    where: and(
+      eq(InterviewTable.jobInfoId, jobInfoId),
+      or(isNotNull(InterviewTable.humeChatId), eq(InterviewTable.mode, "text"))
+    ),
+    with: { jobInfo: { columns: { userId: true } } },
+    orderBy: desc(InterviewTable.createdAt),
+  })
+
+  return data.filter(interview => interview.jobInfo.userId === userId)
+}
@@ -1,21 +1,50 @@
 "use client"
 
+import { ActionButton } from "@/components/ui/action-button"
 import { Button } from "@/components/ui/button"
 import { env } from "@/data/env/client"
 import { JobInfoTable } from "@/drizzle/schema"
-import { createInterview, updateInterview } from "@/features/interviews/actions"
+import {
+  createInterview,
+  endInterview,
+  resumeInterview,
+  syncInterviewDuration,
+  updateInterview,
+} from "@/features/interviews/actions"
+import { InterviewSettingsFields } from "@/features/interviews/components/InterviewSettingsFields"
+import { formatInterviewType } from "@/features/interviews/formatters"
+import {
+  getInterviewerPersonaInstructions,
+  getInterviewTypeInstructions,
+} from "@/features/interviews/interviewerInstructions"
+import {
+  defaultInterviewSettings,
+  InterviewSettings,
+} from "@/features/interviews/schemas"
 import { errorToast } from "@/lib/errorToast"
 import { CondensedMessages } from "@/services/hume/components/CondensedMessages"
 import { condenseChatMessages } from "@/services/hume/lib/condenseChatMessages"
-import { useVoice, VoiceReadyState } from "@humeai/voice-react"
-import { Loader2Icon, MicIcon, MicOffIcon, PhoneOffIcon } from "lucide-react"
+import {
+  isAbnormalClose,
+  useVoiceSession,
+} from "@/services/hume/lib/voiceSession"
+import { VoiceReadyState } from "@humeai/voice-react"
+import {
+  Loader2Icon,
+  MicIcon,
+  MicOffIcon,
+  PhoneIcon,
+  PhoneOffIcon,
+} from "lucide-react"
+import Link from "next/link"
 import { useRouter } from "next/navigation"
-import { useEffect, useMemo, useRef, useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 
 export function StartCall({
   jobInfo,
   user,
   accessToken,
+  resumableInterview,
 }: {
   accessToken: string
   jobInfo: Pick<
@@ -26,76 +55,180 @@ export function StartCall({
     name: string
     imageUrl: string
   }
+  resumableInterview?: {
+    id: string
+    humeChatGroupId: string
+    settings: InterviewSettings
+  }
 }) {
-  const { connect, readyState, chatMetadata, callDurationTimestamp } =
-    useVoice()
-  const [interviewId, setInterviewId] = useState<string | null>(null)
-  const durationRef = useRef(callDurationTimestamp)
+  const { connect, readyState, chatMetadata, closeEvent } = useVoiceSession()
+  const [interviewId, setInterviewId] = useState(resumableInterview?.id ?? null)
+  const [chatGroupId, setChatGroupId] = useState(
+    resumableInterview?.humeChatGroupId ?? null
+  )
+  const [settings, setSettings] = useState(
+    resumableInterview?.settings ?? defaultInterviewSettings
+  )
+  const [isEnding, setIsEnding] = useState(false)
   const router = useRouter()
-  durationRef.current = callDurationTimestamp
+  const isConnected = readyState === VoiceReadyState.OPEN
 
-  // Sync chat ID
+  // Sync chat and chat group IDs
   useEffect(() => {
-    if (chatMetadata?.chatId == null || interviewId == null) {
-      return
-    }
-    updateInterview(interviewId, { humeChatId: chatMetadata.chatId })
-  }, [chatMetadata?.chatId, interviewId])
+    if (chatMetadata == null || interviewId == null) return
 
-  // Sync duration
+    setChatGroupId(chatMetadata.chatGroupId)
+    updateInterview(interviewId, {
+      humeChatId: chatMetadata.chatId,
+      humeChatGroupId: chatMetadata.chatGroupId,
+    })
+  }, [chatMetadata, interviewId])
+
+  // Sync duration, only counting the time spent connected
   useEffect(() => {
-    if (interviewId == null) return
+    if (interviewId == null || !isConnected) return
     const intervalId = setInterval(() => {
-      if (durationRef.current == null) return
-
-      updateInterview(interviewId, { duration: durationRef.current })
+      syncInterviewDuration(interviewId)
     }, 10000)
 
-    return () => clearInterval(intervalId)
-  }, [interviewId])
+    return () => {
+      clearInterval(intervalId)
+      syncInterviewDuration(interviewId)
+    }
+  }, [interviewId, isConnected])
+
+  // The connection dropped instead of the call being ended by either side, so
+  // the user can reconnect to the same chat group
+  const isClosed = readyState === VoiceReadyState.CLOSED
+  const isConnectionLost =
+    isClosed &&
+    !isEnding &&
+    chatGroupId != null &&
+    closeEvent != null &&
+    isAbnormalClose(closeEvent)
+  const shouldFinish =
+    isClosed && !isConnectionLost && (isEnding || closeEvent != null)
 
-  // Handle disconnect
+  // Handle disconnect before an interview was created
   useEffect(() => {
-    if (readyState !== VoiceReadyState.CLOSED) return
-    if (interviewId == null) {
-      return router.push(`/app/job-infos/${jobInfo.id}/interviews`)
+    if (!isClosed || interviewId != null) return
+    router.push(`/app/job-infos/${jobInfo.id}/interviews`)
+  }, [isClosed, interviewId, router, jobInfo.id])
+
+  // Handle the call being ended by the user or the interviewer
+  useEffect(() => {
+    if (!shouldFinish || interviewId == null) return
+
+    const finishInterview = async () => {
+      await endInterview(interviewId)
+      router.push(`/app/job-infos/${jobInfo.id}/interviews/${interviewId}`)
     }
+    finishInterview()
+  }, [shouldFinish, interviewId, router, jobInfo.id])
 
-    if (durationRef.current != null) {
-      updateInterview(interviewId, { duration: durationRef.current })
+  function connectToHume(resumedChatGroupId?: string) {
+    connect({
+      auth: { type: "accessToken", value: accessToken },
+      configId: env.NEXT_PUBLIC_HUME_CONFIG_ID,
+      resumedChatGroupId,
+      sessionSettings: {
+        type: "session_settings",
+        variables: {
+          userName: user.name,
+          title: jobInfo.title || "Not Specified",
+          description: jobInfo.description,
+          experienceLevel: jobInfo.experienceLevel,
+          // These are referenced by the prompt of the Hume config
+          interviewType: formatInterviewType(settings.type),
+          interviewTypeInstructions: getInterviewTypeInstructions(
+            settings.type
+          ),
+          interviewerPersonaInstructions: getInterviewerPersonaInstructions(
+            settings.persona
+          ),
+          targetDurationMinutes: settings.targetDurationMinutes,
+        },
+      },
+    })
+  }
+
+  async function reconnect() {
+    if (interviewId == null || chatGroupId == null) {
+      return { error: true, message: "This interview can't be resumed" }
     }
-    router.push(`/app/job-infos/${jobInfo.id}/interviews/${interviewId}`)
-  }, [interviewId, readyState, router, jobInfo.id])
+
+    const res = await resumeInterview(interviewId)
+    if (!res.error) connectToHume(chatGroupId)
+
+    return res
+  }
+
+  if (readyState === VoiceReadyState.IDLE && resumableInterview != null) {
+    return (
+      <div className="container flex flex-col gap-6 justify-center items-center h-screen-header">
+        <div className="space-y-2 text-center">
+          <h1 className="text-3xl">Resume Interview</h1>
+          <p className="text-muted-foreground">
+            Continue your {formatInterviewType(settings.type).toLowerCase()}{" "}
+            interview where you left off.
+          </p>
+        </div>
+        <ActionButton size="lg" action={reconnect}>
+          Resume Interview
+        </ActionButton>
+      </div>
+    )
+  }
 
   if (readyState === VoiceReadyState.IDLE) {
     return (
-      <div className="flex justify-center items-center h-screen-header">
+      <div className="container flex flex-col gap-6 justify-center items-center h-screen-header">
+        <InterviewSettingsFields settings={settings} onChange={setSettings} />
         <Button
           size="lg"
           onClick={async () => {
-            const res = await createInterview({ jobInfoId: jobInfo.id })
+            const res = await createInterview({
+              jobInfoId: jobInfo.id,
+              settings,
+            })
             if (res.error) {
               return errorToast(res.message)
             }
             setInterviewId(res.id)
-
-            connect({
-              auth: { type: "accessToken", value: accessToken },
-              configId: env.NEXT_PUBLIC_HUME_CONFIG_ID,
-              sessionSettings: {
-                type: "session_settings",
-                variables: {
-                  userName: user.name,
-                  title: jobInfo.title || "Not Specified",
-                  description: jobInfo.description,
-                  experienceLevel: jobInfo.experienceLevel,
-                },
-              },
-            })
+            connectToHume()
           }}
         >
           Start Interview
         </Button>
+        <Button variant="link" asChild>
+          <Link href={`/app/job-infos/${jobInfo.id}/interviews/new/text`}>
+            No microphone? Use text chat instead
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (isConnectionLost && interviewId != null) {
+    return (
+      <div className="container flex flex-col gap-6 justify-center items-center h-screen-header">
+        <div className="space-y-2 text-center">
+          <h1 className="text-3xl">Connection Lost</h1>
+          <p className="text-muted-foreground">
+            Reconnect to continue the interview where you left off, or end it to
+            get your feedback.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <ActionButton action={reconnect}>
+            <PhoneIcon />
+            Reconnect
+          </ActionButton>
+          <Button variant="outline" onClick={() => setIsEnding(true)}>
+            <PhoneOffIcon />
+            End Interview
+          </Button>
+        </div>
       </div>
     )
   }
@@ -115,14 +248,14 @@ export function StartCall({
     <div className="overflow-y-auto h-screen-header flex flex-col-reverse">
       <div className="container py-6 flex flex-col items-center justify-end gap-4">
         <Messages user={user} />
-        <Controls />
+        <Controls onEndCall={() => setIsEnding(true)} />
       </div>
     </div>
   )
 }
 
 function Messages({ user }: { user: { name: string; imageUrl: string } }) {
-  const { messages, fft } = useVoice()
+  const { messages, fft } = useVoiceSession()
 
   const condensedMessages = useMemo(() => {
     return condenseChatMessages(messages)
@@ -138,9 +271,9 @@ function Messages({ user }: { user: { name: string; imageUrl: string } }) {
   )
 }
 
-function Controls() {
+function Controls({ onEndCall }: { onEndCall: () => void }) {
   const { disconnect, isMuted, mute, unmute, micFft, callDurationTimestamp } =
-    useVoice()
+    useVoiceSession()
 
   return (
     <div className="flex gap-5 rounded border px-5 py-2 w-fit sticky bottom-6 bg-background items-center">
@@ -163,7 +296,10 @@ function Controls() {
         variant="ghost"
         size="icon"
         className="-mx-3"
-        onClick={disconnect}
+        onClick={() => {
+          onEndCall()
+          disconnect()
+        }}
       >
         <PhoneOffIcon className="text-destructive" />
         <span className="sr-only">End Call</span>
@@ -1,23 +1,28 @@
 import { db } from "@/drizzle/db"
-import { JobInfoTable } from "@/drizzle/schema"
+import { InterviewTable, JobInfoTable } from "@/drizzle/schema"
+import { getInterviewIdTag } from "@/features/interviews/dbCache"
+import { isInterviewResumable } from "@/features/interviews/resume"
+import { defaultInterviewSettings } from "@/features/interviews/schemas"
 import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
 import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
 import { and, eq } from "drizzle-orm"
 import { Loader2Icon } from "lucide-react"
 import { cacheTag } from "next/dist/server/use-cache/cache-tag"
-import { notFound } from "next/navigation"
+import { notFound, redirect } from "next/navigation"
 import { Suspense } from "react"
-import { fetchAccessToken } from "hume"
-import { env } from "@/data/env/server"
-import { VoiceProvider } from "@humeai/voice-react"
+import { fetchHumeAccessToken } from "@/services/hume/lib/api"
+import { VoiceSessionProvider } from "@/services/hume/components/VoiceSessionProvider"
 import { StartCall } from "./_StartCall"
 
 export default async function NewInterviewPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ jobInfoId: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
 }) {
   const { jobInfoId } = await params
+  const { resume } = await searchParams
   return (
     <Suspense
       fallback={
@@ -26,12 +31,21 @@ export default async function NewInterviewPage({
         </div>
       }
     >
-      <SuspendedComponent jobInfoId={jobInfoId} />
+      <SuspendedComponent
+        jobInfoId={jobInfoId}
+        resumeInterviewId={typeof resume === "string" ? resume : undefined}
+      />
     </Suspense>
   )
 }
 
-async function SuspendedComponent({ jobInfoId }: { jobInfoId: string }) {
+async function SuspendedComponent({
+  jobInfoId,
+  resumeInterviewId,
+}: {
+  jobInfoId: string
+  resumeInterviewId?: string
+}) {
   const { userId, redirectToSignIn, user } = await getCurrentUser({
     allData: true,
   })
@@ -40,18 +54,59 @@ async function SuspendedComponent({ jobInfoId }: { jobInfoId: string }) {
   const jobInfo = await getJobInfo(jobInfoId, userId)
   if (jobInfo == null) return notFound()
 
-  const accessToken = await fetchAccessToken({
-    apiKey: env.HUME_API_KEY,
-    secretKey: env.HUME_SECRET_KEY,
-  })
+  const resumableInterview =
+    resumeInterviewId == null
+      ? undefined
+      : await getResumableInterview(resumeInterviewId, jobInfo.id)
+  if (resumeInterviewId != null && resumableInterview == null) {
+    return redirect(
+      `/app/job-infos/${jobInfoId}/interviews/${resumeInterviewId}`
+    )
+  }
+
+  const accessToken = await fetchHumeAccessToken()
 
   return (
-    <VoiceProvider>
-      <StartCall jobInfo={jobInfo} user={user} accessToken={accessToken} />
-    </VoiceProvider>
+    <VoiceSessionProvider>
+      <StartCall
+        jobInfo={jobInfo}
+        user={user}
+        accessToken={accessToken}
+        resumableInterview={resumableInterview}
+      />
+    </VoiceSessionProvider>
   )
 }
 
+async function getResumableInterview(id: string, jobInfoId: string) {
+  const interview = await getInterview(id, jobInfoId)
+  if (interview == null || !isInterviewResumable(interview)) return undefined
+
+  return {
+    id: interview.id,
+    humeChatGroupId: interview.humeChatGroupId,
+    settings: {
+      type: interview.type,
+      persona: interview.persona,
+      targetDurationMinutes:
+        interview.targetDurationMinutes ??
+        defaultInterviewSettings.targetDurationMinutes,
+    },
+  }
+}
+
+async function getInterview(id: string, jobInfoId: string) {
+  "use cache"
+  cacheTag(getInterviewIdTag(id))
+
+  return db.query.InterviewTable.findFirst({
+    where: and(
+      eq(InterviewTable.id, id),
+      eq(InterviewTable.jobInfoId, jobInfoId)
+    ),
+  })
+}
+
 async function getJobInfo(id: string, userId: string) {
   "use cache"
   cacheTag(getJobInfoIdTag(id))
@@ -0,0 +1,197 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { LoadingSwap } from "@/components/ui/loading-swap"
+import { Textarea } from "@/components/ui/textarea"
+import { JobInfoTable } from "@/drizzle/schema"
+import {
+  createInterview,
+  endInterview as endInterviewAction,
+  syncInterviewDuration,
+} from "@/features/interviews/actions"
+import { InterviewSettingsFields } from "@/features/interviews/components/InterviewSettingsFields"
+import { defaultInterviewSettings } from "@/features/interviews/schemas"
+import { errorToast } from "@/lib/errorToast"
+import { formatDuration } from "@/lib/formatters"
+import { CondensedMessages } from "@/services/hume/components/CondensedMessages"
+import { useCompletion } from "@ai-sdk/react"
+import { Loader2Icon, PhoneOffIcon, SendIcon } from "lucide-react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useEffect, useState } from "react"
+
+export function TextInterview({
+  jobInfo,
+  user,
+}: {
+  jobInfo: Pick<typeof JobInfoTable.$inferSelect, "id">
+  user: {
+    name: string
+    imageUrl: string
+  }
+}) {
+  const [interviewId, setInterviewId] = useState<string | null>(null)
+  const [settings, setSettings] = useState(defaultInterviewSettings)
+  const [messages, setMessages] = useState<
+    { isUser: boolean; content: string[] }[]
+  >([])
+  const [answer, setAnswer] = useState("")
+  const [startedAt, setStartedAt] = useState<number | null>(null)
+  const [elapsedSeconds, setElapsedSeconds] = useState(0)
+  const [isStarting, setIsStarting] = useState(false)
+  const [isEnding, setIsEnding] = useState(false)
+  const router = useRouter()
+
+  const {
+    complete: generateReply,
+    completion: reply,
+    setCompletion: setReply,
+    isLoading: isGeneratingReply,
+  } = useCompletion({
+    api: "/api/ai/interviews/generate-reply",
+    streamProtocol: "text",
+    onFinish: (_prompt, completion) => {
+      setMessages(messages => [
+        ...messages,
+        { isUser: false, content: [completion] },
+      ])
+      setReply("")
+    },
+    onError: error => {
+      errorToast(error.message)
+    },
+  })
+
+  // Track elapsed time
+  useEffect(() => {
+    if (startedAt == null) return
+    const intervalId = setInterval(() => {
+      setElapsedSeconds(Math.floor((Date.now() - startedAt) / 1000))
+    }, 1000)
+
+    return () => clearInterval(intervalId)
+  }, [startedAt])
+
+  // Sync duration
+  useEffect(() => {
+    if (interviewId == null) return
+    const intervalId = setInterval(() => {
+      syncInterviewDuration(interviewId)
+    }, 10000)
+
+    return () => clearInterval(intervalId)
+  }, [interviewId])
+
+  function sendAnswer() {
+    const text = answer.trim()
+    if (text === "" || interviewId == null || isGeneratingReply) return
+
+    setMessages(messages => [...messages, { isUser: true, content: [text] }])
+    setAnswer("")
+    generateReply(text, { body: { interviewId } })
+  }
+
+  async function endInterview() {
+    if (interviewId == null) return
+
+    setIsEnding(true)
+    await endInterviewAction(interviewId)
+    router.push(`/app/job-infos/${jobInfo.id}/interviews/${interviewId}`)
+  }
+
+  if (interviewId == null) {
+    return (
+      <div className="container flex flex-col gap-6 justify-center items-center h-screen-header">
+        <InterviewSettingsFields
+          settings={settings}
+          onChange={setSettings}
+          disabled={isStarting}
+        />
+        <Button
+          size="lg"
+          disabled={isStarting}
+          onClick={async () => {
+            setIsStarting(true)
+            const res = await createInterview({
+              jobInfoId: jobInfo.id,
+              mode: "text",
+              settings,
+            })
+            if (res.error) {
+              setIsStarting(false)
+              return errorToast(res.message)
+            }
+            setInterviewId(res.id)
+            setStartedAt(Date.now())
+            generateReply("", { body: { interviewId: res.id } })
+          }}
+        >
+          <LoadingSwap isLoading={isStarting}>Start Text Interview</LoadingSwap>
+        </Button>
+        <Button variant="link" asChild>
+          <Link href={`/app/job-infos/${jobInfo.id}/interviews/new`}>
+            Use voice instead
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="overflow-y-auto h-screen-header flex flex-col-reverse">
+      <div className="container py-6 flex flex-col items-center justify-end gap-4">
+        <CondensedMessages
+          messages={
+            reply === ""
+              ? messages
+              : [...messages, { isUser: false, content: [reply] }]
+          }
+          user={user}
+          className="max-w-5xl"
+        />
+        {isGeneratingReply && reply === "" && (
+          <Loader2Icon className="animate-spin size-6 self-start max-w-5xl" />
+        )}
+        <div className="flex gap-3 rounded border p-3 w-full max-w-5xl sticky bottom-6 bg-background items-end">
+          <Textarea
+            value={answer}
+            onChange={e => setAnswer(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault()
+                sendAnswer()
+              }
+            }}
+            placeholder="Type your answer..."
+            className="resize-none max-h-48"
+            disabled={isEnding}
+          />
+          <div className="flex flex-col items-center gap-1">
+            <div className="text-sm text-muted-foreground tabular-nums">
+              {formatDuration(elapsedSeconds)}
+            </div>
+            <div className="flex gap-1">
+              <Button
+                size="icon"
+                onClick={sendAnswer}
+                disabled={answer.trim() === "" || isGeneratingReply || isEnding}
+              >
+                <SendIcon />
+                <span className="sr-only">Send</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={endInterview}
+                disabled={isEnding}
+              >
+                <PhoneOffIcon className="text-destructive" />
+                <span className="sr-only">End Interview</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { db } from "@/drizzle/db"
+import { JobInfoTable } from "@/drizzle/schema"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { and, eq } from "drizzle-orm"
+import { Loader2Icon } from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import { notFound } from "next/navigation"
+import { Suspense } from "react"
+import { TextInterview } from "./_TextInterview"
+
+export default async function NewTextInterviewPage({
+  params,
+}: {
+  params: Promise<{ jobInfoId: string }>
+}) {
+  const { jobInfoId } = await params
+  return (
+    <Suspense
+      fallback={
+        <div className="h-screen-header flex items-center justify-center">
+          <Loader2Icon className="animate-spin size-24" />
+        </div>
+      }
+    >
+      <SuspendedComponent jobInfoId={jobInfoId} />
+    </Suspense>
+  )
+}
+
+async function SuspendedComponent({ jobInfoId }: { jobInfoId: string }) {
+  const { userId, redirectToSignIn, user } = await getCurrentUser({
+    allData: true,
+  })
+  if (userId == null || user == null) return redirectToSignIn()
+
+  const jobInfo = await getJobInfo(jobInfoId, userId)
+  if (jobInfo == null) return notFound()
+
+  return <TextInterview jobInfo={jobInfo} user={user} />
+}
+
+async function getJobInfo(id: string, userId: string) {
+  "use cache"
+  cacheTag(getJobInfoIdTag(id))
+
+  return db.query.JobInfoTable.findFirst({
+    where: and(eq(JobInfoTable.id, id), eq(JobInfoTable.userId, userId)),
+  })
+}
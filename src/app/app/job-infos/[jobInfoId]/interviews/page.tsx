@@ -9,12 +9,28 @@ import {
 import { db } from "@/drizzle/db"
 import { InterviewTable } from "@/drizzle/schema"
 import { getInterviewJobInfoTag } from "@/features/interviews/dbCache"
+import {
+  formatInterviewMode,
+  formatInterviewType,
+} from "@/features/interviews/formatters"
+import { InterviewScoreBadge } from "@/features/interviews/components/InterviewScoreBadge"
+import { InterviewFeedbackStatusBadge } from "@/features/interviews/components/InterviewFeedbackStatusBadge"
+import { InterviewFeedbackRefresher } from "@/features/interviews/components/InterviewFeedbackRefresher"
+import {
+  getInterviewFeedbackStatus,
+  isInterviewFeedbackInProgress,
+} from "@/features/interviews/feedback"
 import { JobInfoBackLink } from "@/features/jobInfos/components/JobInfoBackLink"
 import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
-import { formatDateTime } from "@/lib/formatters"
+import { formatDateTime, formatDuration } from "@/lib/formatters"
 import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
-import { and, desc, eq, isNotNull } from "drizzle-orm"
-import { ArrowRightIcon, Loader2Icon, PlusIcon } from "lucide-react"
+import { and, desc, eq, isNotNull, or } from "drizzle-orm"
+import {
+  ArrowRightIcon,
+  GitCompareIcon,
+  Loader2Icon,
+  PlusIcon,
+} from "lucide-react"
 import { cacheTag } from "next/dist/server/use-cache/cache-tag"
 import Link from "next/link"
 import { redirect } from "next/navigation"
@@ -44,7 +60,12 @@ async function SuspendedPage({ jobInfoId }: { jobInfoId: string }) {
   const { userId, redirectToSignIn } = await getCurrentUser()
   if (userId == null) return redirectToSignIn()
 
-  const interviews = await getInterviews(jobInfoId, userId)
+  const interviews = (await getInterviews(jobInfoId, userId)).map(
+    interview => ({
+      ...interview,
+      feedbackStatus: getInterviewFeedbackStatus(interview),
+    })
+  )
   if (interviews.length === 0) {
     return redirect(`/app/job-infos/${jobInfoId}/interviews/new`)
   }
@@ -52,14 +73,27 @@ async function SuspendedPage({ jobInfoId }: { jobInfoId: string }) {
     <div className="space-y-6 w-full">
       <div className="flex gap-2 justify-between">
         <h1 className="text-3xl md:text-4xl lg:text-5xl">Interviews</h1>
-        <Button asChild>
-          <Link href={`/app/job-infos/${jobInfoId}/interviews/new`}>
-            <PlusIcon />
-            New Interview
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          {interviews.length >= 2 && (
+            <Button variant="outline" asChild>
+              <Link href={`/app/job-infos/${jobInfoId}/interviews/compare`}>
+                <GitCompareIcon />
+                Compare
+              </Link>
+            </Button>
+          )}
+          <Button asChild>
+            <Link href={`/app/job-infos/${jobInfoId}/interviews/new`}>
+              <PlusIcon />
+              New Interview
+            </Link>
+          </Button>
+        </div>
       </div>
 
+      {interviews.some(isInterviewFeedbackInProgress) && (
+        <InterviewFeedbackRefresher />
+      )}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 has-hover:*:not-hover:opacity-70">
         <Link
           className="transition-opacity"
@@ -81,10 +115,23 @@ async function SuspendedPage({ jobInfoId }: { jobInfoId: string }) {
             <Card className="h-full">
               <div className="flex items-center justify-between h-full">
                 <CardHeader className="gap-1 flex-grow">
-                  <CardTitle className="text-lg">
+                  <CardTitle className="text-lg flex items-center gap-2">
                     {formatDateTime(interview.createdAt)}
+                    {interview.overallScore != null ? (
+                      <InterviewScoreBadge score={interview.overallScore} />
+                    ) : (
+                      interview.feedbackStatus != null && (
+                        <InterviewFeedbackStatusBadge
+                          status={interview.feedbackStatus}
+                        />
+                      )
+                    )}
                   </CardTitle>
-                  <CardDescription>{interview.duration}</CardDescription>
+                  <CardDescription>
+                    {formatDuration(interview.durationSeconds)} &bull;{" "}
+                    {formatInterviewType(interview.type)} &bull;{" "}
+                    {formatInterviewMode(interview.mode)}
+                  </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <ArrowRightIcon className="size-6" />
@@ -106,7 +153,7 @@ async function getInterviews(jobInfoId: string, userId: string) {
   const data = await db.query.InterviewTable.findMany({
     where: and(
       eq(InterviewTable.jobInfoId, jobInfoId),
-      isNotNull(InterviewTable.humeChatId)
+      or(isNotNull(InterviewTable.humeChatId), eq(InterviewTable.mode, "text"))
     ),
     with: { jobInfo: { columns: { userId: true } } },
     orderBy: desc(InterviewTable.updatedAt),
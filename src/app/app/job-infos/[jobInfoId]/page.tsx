@@ -38,6 +38,12 @@ const options = [
       "Get expert feedback on your resume and improve your chances of landing an interview.",
     href: "resume",
   },
+  {
+    label: "Track Your Progress",
+    description:
+      "See how your interview, question and resume scores change over time.",
+    href: "progress",
+  },
   {
     label: "Update Job Description",
     description: "This should only be used for minor updates.",
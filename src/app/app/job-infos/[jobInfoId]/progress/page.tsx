@@ -0,0 +1,69 @@
+import { db } from "@/drizzle/db"
+import { JobInfoTable } from "@/drizzle/schema"
+import { getInterviewJobInfoTag } from "@/features/interviews/dbCache"
+import { JobInfoBackLink } from "@/features/jobInfos/components/JobInfoBackLink"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { ProgressDashboard } from "@/features/progress/components/ProgressDashboard"
+import { getProgressStats } from "@/features/progress/stats"
+import { getQuestionAttemptJobInfoTag } from "@/features/questionAttempts/dbCache"
+import { getQuestionJobInfoTag } from "@/features/questions/dbCache"
+import { getResumeAnalysisJobInfoTag } from "@/features/resumeAnalyses/dbCache"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { and, eq } from "drizzle-orm"
+import { Loader2Icon } from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import { notFound } from "next/navigation"
+import { Suspense } from "react"
+
+export default async function JobInfoProgressPage({
+  params,
+}: {
+  params: Promise<{ jobInfoId: string }>
+}) {
+  const { jobInfoId } = await params
+
+  return (
+    <div className="container py-4 space-y-6">
+      <JobInfoBackLink jobInfoId={jobInfoId} />
+      <h1 className="text-3xl md:text-4xl lg:text-5xl">Progress</h1>
+
+      <Suspense
+        fallback={<Loader2Icon className="size-24 animate-spin mx-auto" />}
+      >
+        <SuspendedPage jobInfoId={jobInfoId} />
+      </Suspense>
+    </div>
+  )
+}
+
+async function SuspendedPage({ jobInfoId }: { jobInfoId: string }) {
+  const { userId, redirectToSignIn } = await getCurrentUser()
+  if (userId == null) return redirectToSignIn()
+
+  const jobInfo = await getJobInfo(jobInfoId, userId)
+  if (jobInfo == null) return notFound()
+
+  return <ProgressDashboard stats={getProgressStats([jobInfo])} />
+}
+
+async function getJobInfo(id: string, userId: string) {
+  "use cache"
+  cacheTag(getJobInfoIdTag(id))
+  cacheTag(getInterviewJobInfoTag(id))
+  cacheTag(getQuestionJobInfoTag(id))
+  cacheTag(getQuestionAttemptJobInfoTag(id))
+  cacheTag(getResumeAnalysisJobInfoTag(id))
+
+  return db.query.JobInfoTable.findFirst({
+    columns: { id: true },
+    where: and(eq(JobInfoTable.id, id), eq(JobInfoTable.userId, userId)),
+    with: {
+      interviews: { columns: { createdAt: true, overallScore: true } },
+      questions: {
+        columns: { difficulty: true, topic: true },
+        with: { attempts: { columns: { createdAt: true, rating: true } } },
+      },
+      resumeAnalyses: { columns: { createdAt: true, overallScore: true } },
+    },
+  })
+}
@@ -1,36 +1,105 @@
 "use client"
 
 import { BackLink } from "@/components/BackLink"
-import { MarkdownRenderer } from "@/components/MarkdownRenderer"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { LoadingSwap } from "@/components/ui/loading-swap"
 import {
-  ResizableHandle,
-  ResizablePanel,
-  ResizablePanelGroup,
-} from "@/components/ui/resizable"
-import { ScrollArea } from "@/components/ui/scroll-area"
-import { Textarea } from "@/components/ui/textarea"
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import {
   JobInfoTable,
   questionDifficulties,
-  QuestionDifficulty,
+  QuestionKind,
+  questionKinds,
+  QuestionTable,
+  QuestionType,
+  questionTypes,
 } from "@/drizzle/schema"
-import { formatQuestionDifficulty } from "@/features/questions/formatters"
-import { useMemo, useState } from "react"
-import { useCompletion } from "@ai-sdk/react"
+import { QuestionDifficultyMode } from "@/features/questions/adaptiveDifficulty"
+import { useCodeRunner } from "@/features/questions/codeRunner/useCodeRunner"
+import {
+  PublicCodingSpec,
+  publicCodingSpecSchema,
+} from "@/features/questions/codingSpec"
+import {
+  applyHintPenalty,
+  MAX_QUESTION_HINTS,
+} from "@/features/questions/hints"
+import { QuestionContainer } from "@/features/questions/components/QuestionContainer"
+import {
+  formatCodingQuestionAsMarkdown,
+  formatQuestionDifficulty,
+  formatQuestionKind,
+  formatQuestionType,
+} from "@/features/questions/formatters"
+import { useEffect, useMemo, useState } from "react"
+import {
+  experimental_useObject as useObject,
+  useCompletion,
+} from "@ai-sdk/react"
 import { errorToast } from "@/lib/errorToast"
 import z from "zod"
+import Link from "next/link"
+import {
+  CalendarClockIcon,
+  FlaskConicalIcon,
+  HistoryIcon,
+  LightbulbIcon,
+  MessageSquarePlusIcon,
+  SparklesIcon,
+  TargetIcon,
+  TimerIcon,
+} from "lucide-react"
+import { aiQuestionFeedbackSchema } from "@/services/ai/questionSchemas"
 
 type Status = "awaiting-answer" | "awaiting-difficulty" | "init"
 
 export function NewQuestionClientPage({
   jobInfo,
+  question: initialQuestion,
+  topic: initialTopic,
+  topics,
 }: {
   jobInfo: Pick<typeof JobInfoTable.$inferSelect, "id" | "name" | "title">
+  question?: Pick<
+    typeof QuestionTable.$inferSelect,
+    "id" | "text" | "type" | "kind" | "topic"
+  > & { codingSpec: PublicCodingSpec | null }
+  topic?: string
+  topics: string[]
 }) {
-  const [status, setStatus] = useState<Status>("init")
-  const [answer, setAnswer] = useState<string | null>(null)
+  const [status, setStatus] = useState<Status>(
+    initialQuestion == null ? "init" : "awaiting-answer"
+  )
+  const [questionType, setQuestionType] = useState<QuestionType>(
+    initialQuestion?.type ?? "standard"
+  )
+  const [questionKind, setQuestionKind] = useState<QuestionKind>(
+    initialQuestion?.kind ?? "technical"
+  )
+  const [topic, setTopic] = useState(
+    initialTopic ?? initialQuestion?.topic ?? ""
+  )
+  const [answer, setAnswer] = useState<string | null>(
+    initialQuestion?.codingSpec?.starterCode ?? null
+  )
+  const [reattemptQuestionId, setReattemptQuestionId] = useState(
+    initialQuestion?.id ?? null
+  )
+  const [codingSpec, setCodingSpec] = useState<PublicCodingSpec | null>(
+    initialQuestion?.codingSpec ?? null
+  )
+  const [isFollowUp, setIsFollowUp] = useState(false)
+  const [hints, setHints] = useState<string[]>([])
+  // Identifies the current try at the question, so hints from an earlier try
+  // are not counted against this one
+  const [practiceId, setPracticeId] = useState(() => crypto.randomUUID())
+  const codeRunner = useCodeRunner()
 
   const {
     complete: generateQuestion,
@@ -40,6 +109,7 @@ export function NewQuestionClientPage({
     data,
   } = useCompletion({
     api: "/api/ai/questions/generate-question",
+    initialCompletion: initialQuestion?.text,
     onFinish: () => {
       setStatus("awaiting-answer")
     },
@@ -49,13 +119,71 @@ export function NewQuestionClientPage({
   })
 
   const {
-    complete: generateFeedback,
-    completion: feedback,
-    setCompletion: setFeedback,
-    isLoading: isGeneratingFeedback,
+    complete: generateFollowUp,
+    completion: followUpQuestion,
+    isLoading: isGeneratingFollowUp,
+    data: followUpData,
   } = useCompletion({
-    api: "/api/ai/questions/generate-feedback",
+    api: "/api/ai/questions/generate-follow-up",
+    onFinish: () => {
+      setStatus("awaiting-answer")
+    },
+    onError: error => {
+      errorToast(error.message)
+    },
+  })
+
+  const {
+    complete: generateHint,
+    completion: hint,
+    setCompletion: setHint,
+    isLoading: isGeneratingHint,
+  } = useCompletion({
+    api: "/api/ai/questions/generate-hint",
+    streamProtocol: "text",
+    onFinish: (_prompt, completion) => {
+      setHints(hints => [...hints, completion])
+      setHint("")
+    },
+    onError: error => {
+      errorToast(error.message)
+    },
+  })
+
+  const {
+    complete: generateCodingQuestion,
+    completion: codingQuestion,
+    isLoading: isGeneratingCodingQuestion,
+    data: codingData,
+  } = useCompletion({
+    api: "/api/ai/questions/generate-coding-question",
     onFinish: () => {
+      setStatus("awaiting-answer")
+    },
+    onError: error => {
+      errorToast(error.message)
+    },
+  })
+
+  // The spec of a coding question is only sent once it has been saved
+  useEffect(() => {
+    const spec = getCodingSpecFromData(codingData)
+    if (spec == null) return
+
+    setCodingSpec(spec)
+    setAnswer(spec.starterCode)
+  }, [codingData])
+
+  const [isFeedbackVisible, setIsFeedbackVisible] = useState(false)
+  const {
+    submit: generateFeedback,
+    object: feedback,
+    isLoading: isGeneratingFeedback,
+  } = useObject({
+    api: "/api/ai/questions/generate-feedback",
+    schema: aiQuestionFeedbackSchema,
+    onFinish: ({ error }) => {
+      if (error != null) errorToast("Failed to generate feedback")
       setStatus("awaiting-difficulty")
     },
     onError: error => {
@@ -64,13 +192,75 @@ export function NewQuestionClientPage({
   })
 
   const questionId = useMemo(() => {
-    const item = data?.at(-1)
-    if (item == null) return null
-    const parsed = z.object({ questionId: z.string() }).safeParse(item)
-    if (!parsed.success) return null
+    if (reattemptQuestionId != null) return reattemptQuestionId
+    if (isFollowUp) return getQuestionIdFromData(followUpData)
+    if (questionType === "coding") return getQuestionIdFromData(codingData)
+
+    return getQuestionIdFromData(data)
+  }, [
+    data,
+    followUpData,
+    reattemptQuestionId,
+    isFollowUp,
+    questionType,
+    codingData,
+  ])
 
-    return parsed.data.questionId
-  }, [data])
+  const difficultyReason = useMemo(() => {
+    if (isFollowUp) return null
+
+    const questionData = questionType === "coding" ? codingData : data
+    for (const item of [...(questionData ?? [])].reverse()) {
+      const parsed = z
+        .object({ difficultyReason: z.string().nullable() })
+        .safeParse(item)
+      if (parsed.success) return parsed.data.difficultyReason
+    }
+
+    return null
+  }, [data, codingData, isFollowUp, questionType])
+
+  const displayedQuestion = useMemo(() => {
+    if (isFollowUp) return followUpQuestion
+    if (questionType === "standard") return question
+    if (codingSpec != null) return formatCodingQuestionAsMarkdown(codingSpec)
+    if (isGeneratingCodingQuestion) return codingQuestion
+
+    return ""
+  }, [
+    isFollowUp,
+    followUpQuestion,
+    questionType,
+    question,
+    codingSpec,
+    isGeneratingCodingQuestion,
+    codingQuestion,
+  ])
+
+  const displayedHints = isGeneratingHint ? [...hints, hint] : hints
+  const displayedFeedback =
+    feedback?.rating == null
+      ? feedback
+      : { ...feedback, rating: applyHintPenalty(feedback.rating, hints.length) }
+
+  function reset() {
+    setStatus("init")
+    setQuestion("")
+    setIsFeedbackVisible(false)
+    setAnswer(null)
+    setReattemptQuestionId(null)
+    setIsFollowUp(false)
+    setHints([])
+    setPracticeId(crypto.randomUUID())
+    setCodingSpec(null)
+    codeRunner.reset()
+  }
+
+  function runTests() {
+    if (codingSpec == null) return Promise.resolve(null)
+
+    return codeRunner.runTests(codingSpec, answer ?? "")
+  }
 
   return (
     <div className="flex flex-col items-center gap-4 w-full mx-w-[2000px] mx-auto flex-grow h-screen-header">
@@ -81,118 +271,177 @@ export function NewQuestionClientPage({
           </BackLink>
         </div>
         <Controls
-          reset={() => {
-            setStatus("init")
-            setQuestion("")
-            setFeedback("")
-            setAnswer(null)
+          reset={reset}
+          questionType={questionType}
+          questionKind={questionKind}
+          setQuestionKind={setQuestionKind}
+          topic={topic}
+          setTopic={setTopic}
+          topics={topics}
+          setQuestionType={type => {
+            reset()
+            setQuestionType(type)
           }}
           disableAnswerButton={
             answer == null || answer.trim() === "" || questionId == null
           }
           status={status}
-          isLoading={isGeneratingFeedback || isGeneratingQuestion}
-          generateFeedback={() => {
+          isLoading={
+            isGeneratingFeedback ||
+            isGeneratingQuestion ||
+            isGeneratingFollowUp ||
+            isGeneratingCodingQuestion
+          }
+          isGeneratingHint={isGeneratingHint}
+          hintsRemaining={MAX_QUESTION_HINTS - hints.length}
+          requestHint={
+            questionId == null
+              ? undefined
+              : () => {
+                  generateHint(answer ?? "", {
+                    body: { questionId, practiceId },
+                  })
+                }
+          }
+          generateFollowUp={
+            questionId == null || questionType === "coding"
+              ? undefined
+              : () => {
+                  setIsFeedbackVisible(false)
+                  setAnswer(null)
+                  setReattemptQuestionId(null)
+                  setHints([])
+                  setPracticeId(crypto.randomUUID())
+                  setIsFollowUp(true)
+                  generateFollowUp(questionId)
+                }
+          }
+          isRunningTests={codeRunner.isRunning}
+          runTests={codingSpec == null ? undefined : runTests}
+          generateFeedback={async () => {
             if (answer == null || answer.trim() === "" || questionId == null)
               return
 
-            generateFeedback(answer?.trim(), { body: { questionId } })
+            const testOutputs =
+              codingSpec == null ? undefined : await runTests()
+
+            setIsFeedbackVisible(true)
+            generateFeedback({
+              prompt: answer.trim(),
+              questionId,
+              practiceId,
+              testOutputs: testOutputs ?? undefined,
+            })
           }}
-          generateQuestion={difficulty => {
+          generateQuestion={difficultyMode => {
             setQuestion("")
-            setFeedback("")
+            setIsFeedbackVisible(false)
             setAnswer(null)
-            generateQuestion(difficulty, { body: { jobInfoId: jobInfo.id } })
+            setReattemptQuestionId(null)
+            setIsFollowUp(false)
+            setHints([])
+            setPracticeId(crypto.randomUUID())
+            setCodingSpec(null)
+            codeRunner.reset()
+            if (questionType === "coding") {
+              generateCodingQuestion(difficultyMode, {
+                body: { jobInfoId: jobInfo.id, topic },
+              })
+            } else {
+              generateQuestion(difficultyMode, {
+                body: { jobInfoId: jobInfo.id, kind: questionKind, topic },
+              })
+            }
           }}
         />
-        <div className="flex-grow hidden md:block" />
+        <div className="flex-grow basis-0 flex justify-end gap-2">
+          <Button asChild variant="ghost" size="sm">
+            <Link href={`/app/job-infos/${jobInfo.id}/questions/sessions`}>
+              <TimerIcon />
+              Sessions
+            </Link>
+          </Button>
+          <Button asChild variant="ghost" size="sm">
+            <Link href={`/app/job-infos/${jobInfo.id}/questions/topics`}>
+              <TargetIcon />
+              Topics
+            </Link>
+          </Button>
+          <Button asChild variant="ghost" size="sm">
+            <Link href={`/app/job-infos/${jobInfo.id}/questions/review`}>
+              <CalendarClockIcon />
+              Review
+            </Link>
+          </Button>
+          <Button asChild variant="ghost" size="sm">
+            <Link href={`/app/job-infos/${jobInfo.id}/questions/history`}>
+              <HistoryIcon />
+              History
+            </Link>
+          </Button>
+        </div>
       </div>
       <QuestionContainer
-        question={question}
-        feedback={feedback}
+        question={displayedQuestion}
+        difficultyReason={difficultyReason}
+        hints={displayedHints}
+        feedback={isFeedbackVisible ? displayedFeedback : undefined}
         answer={answer}
-        status={status}
+        isAnswerDisabled={status !== "awaiting-answer"}
         setAnswer={setAnswer}
+        emptyMessage={
+          status === "init" &&
+          "Get started by selecting a question difficulty above."
+        }
+        codeTests={
+          questionType === "coding"
+            ? { results: codeRunner.results, error: codeRunner.error }
+            : undefined
+        }
       />
     </div>
   )
 }
 
-function QuestionContainer({
-  question,
-  feedback,
-  answer,
-  status,
-  setAnswer,
-}: {
-  question: string | null
-  feedback: string | null
-  answer: string | null
-  status: Status
-  setAnswer: (value: string) => void
-}) {
-  return (
-    <ResizablePanelGroup direction="horizontal" className="flex-grow border-t">
-      <ResizablePanel id="question-and-feedback" defaultSize={50} minSize={5}>
-        <ResizablePanelGroup direction="vertical" className="flex-grow">
-          <ResizablePanel id="question" defaultSize={25} minSize={5}>
-            <ScrollArea className="h-full min-w-48 *:h-full">
-              {status === "init" && question == null ? (
-                <p className="text-base md:text-lg flex items-center justify-center h-full p-6">
-                  Get started by selecting a question difficulty above.
-                </p>
-              ) : (
-                question && (
-                  <MarkdownRenderer className="p-6">
-                    {question}
-                  </MarkdownRenderer>
-                )
-              )}
-            </ScrollArea>
-          </ResizablePanel>
-          {feedback && (
-            <>
-              <ResizableHandle withHandle />
-              <ResizablePanel id="feedback" defaultSize={75} minSize={5}>
-                <ScrollArea className="h-full min-w-48 *:h-full">
-                  <MarkdownRenderer className="p-6">
-                    {feedback}
-                  </MarkdownRenderer>
-                </ScrollArea>
-              </ResizablePanel>
-            </>
-          )}
-        </ResizablePanelGroup>
-      </ResizablePanel>
-      <ResizableHandle withHandle />
-      <ResizablePanel id="answer" defaultSize={50} minSize={5}>
-        <ScrollArea className="h-full min-w-48 *:h-full">
-          <Textarea
-            disabled={status !== "awaiting-answer"}
-            onChange={e => setAnswer(e.target.value)}
-            value={answer ?? ""}
-            placeholder="Type your answer here..."
-            className="w-full h-full resize-none border-none rounded-none focus-visible:ring focus-visible:ring-inset !text-base p-6"
-          />
-        </ScrollArea>
-      </ResizablePanel>
-    </ResizablePanelGroup>
-  )
-}
-
 function Controls({
   status,
   isLoading,
+  isRunningTests,
+  isGeneratingHint,
+  hintsRemaining,
   disableAnswerButton,
+  questionType,
+  setQuestionType,
+  questionKind,
+  setQuestionKind,
+  topic,
+  setTopic,
+  topics,
   generateQuestion,
   generateFeedback,
+  runTests,
+  requestHint,
+  generateFollowUp,
   reset,
 }: {
   disableAnswerButton: boolean
   status: Status
   isLoading: boolean
-  generateQuestion: (difficulty: QuestionDifficulty) => void
+  isRunningTests: boolean
+  isGeneratingHint: boolean
+  hintsRemaining: number
+  questionType: QuestionType
+  setQuestionType: (type: QuestionType) => void
+  questionKind: QuestionKind
+  setQuestionKind: (kind: QuestionKind) => void
+  topic: string
+  setTopic: (topic: string) => void
+  topics: string[]
+  generateQuestion: (difficultyMode: QuestionDifficultyMode) => void
   generateFeedback: () => void
+  runTests?: () => void
+  requestHint?: () => void
+  generateFollowUp?: () => void
   reset: () => void
 }) {
   return (
@@ -207,28 +456,161 @@ function Controls({
           >
             <LoadingSwap isLoading={isLoading}>Skip</LoadingSwap>
           </Button>
+          {requestHint && (
+            <Button
+              onClick={requestHint}
+              disabled={isLoading || isGeneratingHint || hintsRemaining <= 0}
+              variant="outline"
+              size="sm"
+            >
+              <LoadingSwap
+                isLoading={isGeneratingHint}
+                className="inline-flex items-center gap-2"
+              >
+                <LightbulbIcon />
+                Hint ({hintsRemaining} left)
+              </LoadingSwap>
+            </Button>
+          )}
+          {runTests && (
+            <Button
+              onClick={runTests}
+              disabled={isLoading || isRunningTests || disableAnswerButton}
+              variant="outline"
+              size="sm"
+            >
+              <LoadingSwap
+                isLoading={isRunningTests}
+                className="inline-flex items-center gap-2"
+              >
+                <FlaskConicalIcon />
+                Run Tests
+              </LoadingSwap>
+            </Button>
+          )}
           <Button
             onClick={generateFeedback}
-            disabled={disableAnswerButton}
+            disabled={disableAnswerButton || isLoading || isRunningTests}
             size="sm"
           >
             <LoadingSwap isLoading={isLoading}>Answer</LoadingSwap>
           </Button>
         </>
       ) : (
-        questionDifficulties.map(difficulty => (
+        <>
+          {status === "awaiting-difficulty" && generateFollowUp && (
+            <Button
+              onClick={generateFollowUp}
+              disabled={isLoading}
+              variant="outline"
+              size="sm"
+            >
+              <LoadingSwap
+                isLoading={isLoading}
+                className="inline-flex items-center gap-2"
+              >
+                <MessageSquarePlusIcon />
+                Follow-up
+              </LoadingSwap>
+            </Button>
+          )}
+          <Select
+            value={questionType}
+            onValueChange={value => setQuestionType(value as QuestionType)}
+            disabled={isLoading}
+          >
+            <SelectTrigger size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {questionTypes.map(type => (
+                <SelectItem key={type} value={type}>
+                  {formatQuestionType(type)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {questionType === "standard" && (
+            <Select
+              value={questionKind}
+              onValueChange={value => setQuestionKind(value as QuestionKind)}
+              disabled={isLoading}
+            >
+              <SelectTrigger size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {questionKinds.map(kind => (
+                  <SelectItem key={kind} value={kind}>
+                    {formatQuestionKind(kind)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Input
+            value={topic}
+            onChange={e => setTopic(e.target.value)}
+            disabled={isLoading}
+            placeholder="Any topic"
+            aria-label="Topic"
+            list="question-topics"
+            maxLength={100}
+            className="h-8 w-40"
+          />
+          <datalist id="question-topics">
+            {topics.map(topic => (
+              <option key={topic} value={topic} />
+            ))}
+          </datalist>
+          {questionDifficulties.map(difficulty => (
+            <Button
+              key={difficulty}
+              size="sm"
+              disabled={isLoading}
+              onClick={() => generateQuestion(difficulty)}
+            >
+              <LoadingSwap isLoading={isLoading}>
+                {formatQuestionDifficulty(difficulty)}
+              </LoadingSwap>
+            </Button>
+          ))}
           <Button
-            key={difficulty}
             size="sm"
+            variant="outline"
             disabled={isLoading}
-            onClick={() => generateQuestion(difficulty)}
+            onClick={() => generateQuestion("adaptive")}
           >
-            <LoadingSwap isLoading={isLoading}>
-              {formatQuestionDifficulty(difficulty)}
+            <LoadingSwap
+              isLoading={isLoading}
+              className="inline-flex items-center gap-2"
+            >
+              <SparklesIcon />
+              Adaptive
             </LoadingSwap>
           </Button>
-        ))
+        </>
       )}
     </div>
   )
 }
+
+function getQuestionIdFromData(data: unknown[] | undefined) {
+  const item = data?.at(-1)
+  if (item == null) return null
+  const parsed = z.object({ questionId: z.string() }).safeParse(item)
+  if (!parsed.success) return null
+
+  return parsed.data.questionId
+}
+
+function getCodingSpecFromData(data: unknown[] | undefined) {
+  const item = data?.at(-1)
+  if (item == null) return null
+  const parsed = z
+    .object({ codingSpec: publicCodingSpecSchema })
+    .safeParse(item)
+  if (!parsed.success) return null
+
+  return parsed.data.codingSpec
+}
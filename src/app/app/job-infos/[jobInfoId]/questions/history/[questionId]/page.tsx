@@ -0,0 +1,234 @@
+import { BackLink } from "@/components/BackLink"
+import { MarkdownRenderer } from "@/components/MarkdownRenderer"
+import { Skeleton, SkeletonButton } from "@/components/Skeleton"
+import { SuspendedItem } from "@/components/SuspendedItem"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { db } from "@/drizzle/db"
+import { QuestionAttemptTable, QuestionTable } from "@/drizzle/schema"
+import { QuestionFeedback } from "@/features/questionAttempts/components/QuestionFeedback"
+import { QuestionRatingBadge } from "@/features/questionAttempts/components/QuestionRatingBadge"
+import { getQuestionAttemptQuestionTag } from "@/features/questionAttempts/dbCache"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import {
+  getQuestionIdTag,
+  getQuestionJobInfoTag,
+} from "@/features/questions/dbCache"
+import {
+  formatQuestionDifficulty,
+  formatQuestionKind,
+} from "@/features/questions/formatters"
+import { formatDateTime } from "@/lib/formatters"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { asc, desc, eq } from "drizzle-orm"
+import {
+  CornerDownRightIcon,
+  CornerLeftUpIcon,
+  Loader2Icon,
+  RotateCcwIcon,
+} from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { Suspense } from "react"
+
+export default async function QuestionHistoryItemPage({
+  params,
+}: {
+  params: Promise<{ jobInfoId: string; questionId: string }>
+}) {
+  const { jobInfoId, questionId } = await params
+
+  const question = getCurrentUser().then(
+    async ({ userId, redirectToSignIn }) => {
+      if (userId == null) return redirectToSignIn()
+
+      const question = await getQuestion(questionId, userId)
+      if (question == null || question.jobInfoId !== jobInfoId) {
+        return notFound()
+      }
+      return question
+    }
+  )
+
+  return (
+    <div className="container my-4 space-y-4">
+      <BackLink href={`/app/job-infos/${jobInfoId}/questions/history`}>
+        Question History
+      </BackLink>
+      <div className="space-y-6">
+        <div className="flex gap-2 justify-between">
+          <div className="space-y-2">
+            <h1 className="text-3xl md:text-4xl">
+              Question:{" "}
+              <SuspendedItem
+                item={question}
+                fallback={<Skeleton className="w-48" />}
+                result={q => formatDateTime(q.createdAt)}
+              />
+            </h1>
+            <SuspendedItem
+              item={question}
+              fallback={<Skeleton className="w-12" />}
+              result={q => (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">
+                    {formatQuestionDifficulty(q.difficulty)}
+                  </Badge>
+                  <Badge variant="outline">{formatQuestionKind(q.kind)}</Badge>
+                  {q.topic && <Badge variant="outline">{q.topic}</Badge>}
+                  {q.difficultyReason && (
+                    <span className="text-sm text-muted-foreground">
+                      {q.difficultyReason}
+                    </span>
+                  )}
+                </div>
+              )}
+            />
+          </div>
+          <SuspendedItem
+            item={question}
+            fallback={<SkeletonButton className="w-32" />}
+            result={q => (
+              <Button asChild>
+                <Link
+                  href={`/app/job-infos/${jobInfoId}/questions?questionId=${q.id}`}
+                >
+                  <RotateCcwIcon />
+                  Re-attempt
+                </Link>
+              </Button>
+            )}
+          />
+        </div>
+        <Suspense
+          fallback={<Loader2Icon className="animate-spin size-24 mx-auto" />}
+        >
+          <QuestionDetails question={question} jobInfoId={jobInfoId} />
+        </Suspense>
+      </div>
+    </div>
+  )
+}
+
+async function QuestionDetails({
+  question,
+  jobInfoId,
+}: {
+  question: Promise<NonNullable<Awaited<ReturnType<typeof getQuestion>>>>
+  jobInfoId: string
+}) {
+  const { text, attempts, parentQuestion, followUps } = await question
+
+  return (
+    <div className="space-y-6">
+      {parentQuestion != null && (
+        <Link
+          href={`/app/job-infos/${jobInfoId}/questions/history/${parentQuestion.id}`}
+          className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <CornerLeftUpIcon className="size-4" />
+          Follow-up to the question from{" "}
+          {formatDateTime(parentQuestion.createdAt)}
+        </Link>
+      )}
+
+      <Card>
+        <CardContent>
+          <MarkdownRenderer>{text}</MarkdownRenderer>
+        </CardContent>
+      </Card>
+
+      {followUps.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold">Follow-up Questions</h2>
+          {followUps.map(followUp => (
+            <Link
+              key={followUp.id}
+              href={`/app/job-infos/${jobInfoId}/questions/history/${followUp.id}`}
+              className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <CornerDownRightIcon className="size-4" />
+              {formatDateTime(followUp.createdAt)}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {attempts.length === 0 ? (
+        <p className="text-muted-foreground text-center py-6">
+          This question has not been answered yet.
+        </p>
+      ) : (
+        attempts.map(attempt => (
+          <Card key={attempt.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                Attempt <QuestionRatingBadge rating={attempt.rating} />
+                {attempt.hintsUsed > 0 && (
+                  <Badge variant="outline">
+                    {attempt.hintsUsed}{" "}
+                    {attempt.hintsUsed === 1 ? "hint" : "hints"} used
+                  </Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                {formatDateTime(attempt.createdAt)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <h2 className="text-lg font-semibold">Your Answer</h2>
+                <p className="whitespace-pre-wrap text-muted-foreground">
+                  {attempt.answer}
+                </p>
+              </div>
+              {attempt.structuredFeedback == null ? (
+                <div className="space-y-2">
+                  <h2 className="text-lg font-semibold">Feedback</h2>
+                  <MarkdownRenderer>{attempt.feedback}</MarkdownRenderer>
+                </div>
+              ) : (
+                <QuestionFeedback feedback={attempt.structuredFeedback} />
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  )
+}
+
+async function getQuestion(id: string, userId: string) {
+  "use cache"
+  cacheTag(getQuestionIdTag(id))
+  cacheTag(getQuestionAttemptQuestionTag(id))
+
+  const question = await db.query.QuestionTable.findFirst({
+    where: eq(QuestionTable.id, id),
+    with: {
+      jobInfo: { columns: { id: true, userId: true } },
+      attempts: { orderBy: desc(QuestionAttemptTable.createdAt) },
+      parentQuestion: { columns: { id: true, createdAt: true } },
+      followUps: {
+        columns: { id: true, createdAt: true },
+        orderBy: asc(QuestionTable.createdAt),
+      },
+    },
+  })
+
+  if (question == null) return null
+  cacheTag(getQuestionJobInfoTag(question.jobInfoId))
+
+  cacheTag(getJobInfoIdTag(question.jobInfo.id))
+  if (question.jobInfo.userId !== userId) return null
+
+  return question
+}
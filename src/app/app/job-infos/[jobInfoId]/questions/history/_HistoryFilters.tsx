@@ -0,0 +1,96 @@
+"use client"
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { questionDifficulties } from "@/drizzle/schema"
+import { formatQuestionDifficulty } from "@/features/questions/formatters"
+import {
+  formatQuestionHistoryPeriod,
+  formatQuestionHistoryRating,
+  QuestionHistoryFilters,
+  questionHistoryPeriods,
+  questionHistoryRatings,
+} from "@/features/questions/historyFilters"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+
+const ALL = "all"
+
+export function HistoryFilters({
+  filters,
+}: {
+  filters: QuestionHistoryFilters
+}) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  function setFilter(key: keyof QuestionHistoryFilters, value: string) {
+    const params = new URLSearchParams(searchParams)
+    if (value === ALL) {
+      params.delete(key)
+    } else {
+      params.set(key, value)
+    }
+
+    const query = params.toString()
+    router.push(query === "" ? pathname : `${pathname}?${query}`)
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Select
+        value={filters.difficulty ?? ALL}
+        onValueChange={value => setFilter("difficulty", value)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All difficulties</SelectItem>
+          {questionDifficulties.map(difficulty => (
+            <SelectItem key={difficulty} value={difficulty}>
+              {formatQuestionDifficulty(difficulty)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={filters.period ?? ALL}
+        onValueChange={value => setFilter("period", value)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All time</SelectItem>
+          {questionHistoryPeriods.map(period => (
+            <SelectItem key={period} value={period}>
+              {formatQuestionHistoryPeriod(period)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={filters.rating ?? ALL}
+        onValueChange={value => setFilter("rating", value)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All ratings</SelectItem>
+          {questionHistoryRatings.map(rating => (
+            <SelectItem key={rating} value={rating}>
+              {formatQuestionHistoryRating(rating)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
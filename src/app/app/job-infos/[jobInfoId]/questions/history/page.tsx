@@ -0,0 +1,157 @@
+import { BackLink } from "@/components/BackLink"
+import { MarkdownRenderer } from "@/components/MarkdownRenderer"
+import { Badge } from "@/components/ui/badge"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { db } from "@/drizzle/db"
+import { QuestionAttemptTable, QuestionTable } from "@/drizzle/schema"
+import { QuestionRatingBadge } from "@/features/questionAttempts/components/QuestionRatingBadge"
+import { getQuestionAttemptJobInfoTag } from "@/features/questionAttempts/dbCache"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { getQuestionJobInfoTag } from "@/features/questions/dbCache"
+import {
+  formatQuestionDifficulty,
+  formatQuestionKind,
+} from "@/features/questions/formatters"
+import {
+  filterQuestionHistory,
+  questionHistoryFiltersSchema,
+} from "@/features/questions/historyFilters"
+import { formatDateTime } from "@/lib/formatters"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { desc, eq } from "drizzle-orm"
+import { ArrowRightIcon, Loader2Icon } from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import Link from "next/link"
+import { Suspense } from "react"
+import { HistoryFilters } from "./_HistoryFilters"
+
+export default async function QuestionHistoryPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ jobInfoId: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const { jobInfoId } = await params
+  const filters = questionHistoryFiltersSchema.parse(await searchParams)
+
+  return (
+    <div className="container py-4 space-y-6">
+      <BackLink href={`/app/job-infos/${jobInfoId}/questions`}>
+        Practice Questions
+      </BackLink>
+
+      <div className="flex flex-wrap gap-4 justify-between items-end">
+        <h1 className="text-3xl md:text-4xl lg:text-5xl">Question History</h1>
+        <HistoryFilters filters={filters} />
+      </div>
+
+      <Suspense
+        fallback={<Loader2Icon className="size-24 animate-spin mx-auto" />}
+      >
+        <SuspendedPage jobInfoId={jobInfoId} filters={filters} />
+      </Suspense>
+    </div>
+  )
+}
+
+async function SuspendedPage({
+  jobInfoId,
+  filters,
+}: {
+  jobInfoId: string
+  filters: Parameters<typeof filterQuestionHistory>[1]
+}) {
+  const { userId, redirectToSignIn } = await getCurrentUser()
+  if (userId == null) return redirectToSignIn()
+
+  const questions = filterQuestionHistory(
+    await getQuestions(jobInfoId, userId),
+    filters
+  )
+
+  if (questions.length === 0) {
+    return (
+      <p className="text-muted-foreground text-center py-12">
+        No questions match these filters.
+      </p>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 has-hover:*:not-hover:opacity-70">
+      {questions.map(question => (
+        <Link
+          className="hover:scale-[1.02] transition-[transform_opacity]"
+          href={`/app/job-infos/${jobInfoId}/questions/history/${question.id}`}
+          key={question.id}
+        >
+          <Card className="h-full">
+            <div className="flex items-center justify-between h-full">
+              <div className="space-y-4 h-full min-w-0">
+                <CardHeader className="gap-2">
+                  <CardTitle className="text-lg">
+                    {formatDateTime(question.createdAt)}
+                  </CardTitle>
+                  <CardDescription className="flex gap-2">
+                    <Badge variant="outline">
+                      {formatQuestionDifficulty(question.difficulty)}
+                    </Badge>
+                    <Badge variant="outline">
+                      {formatQuestionKind(question.kind)}
+                    </Badge>
+                    {question.topic && (
+                      <Badge variant="outline">{question.topic}</Badge>
+                    )}
+                    <QuestionRatingBadge
+                      rating={question.attempts[0]?.rating ?? null}
+                    />
+                    <Badge variant="secondary">
+                      {question.attempts.length}{" "}
+                      {question.attempts.length === 1 ? "attempt" : "attempts"}
+                    </Badge>
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="line-clamp-3 text-muted-foreground">
+                  <MarkdownRenderer className="prose-sm">
+                    {question.text}
+                  </MarkdownRenderer>
+                </CardContent>
+              </div>
+              <CardContent>
+                <ArrowRightIcon className="size-6" />
+              </CardContent>
+            </div>
+          </Card>
+        </Link>
+      ))}
+    </div>
+  )
+}
+
+async function getQuestions(jobInfoId: string, userId: string) {
+  "use cache"
+  cacheTag(getQuestionJobInfoTag(jobInfoId))
+  cacheTag(getQuestionAttemptJobInfoTag(jobInfoId))
+  cacheTag(getJobInfoIdTag(jobInfoId))
+
+  const data = await db.query.QuestionTable.findMany({
+    where: eq(QuestionTable.jobInfoId, jobInfoId),
+    with: {
+      jobInfo: { columns: { userId: true } },
+      attempts: {
+        columns: { rating: true },
+        orderBy: desc(QuestionAttemptTable.createdAt),
+      },
+    },
+    orderBy: desc(QuestionTable.createdAt),
+  })
+
+  return data.filter(question => question.jobInfo.userId === userId)
+}
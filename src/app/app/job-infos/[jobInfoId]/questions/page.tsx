@@ -1,6 +1,9 @@
 import { db } from "@/drizzle/db"
-import { JobInfoTable } from "@/drizzle/schema"
+import { JobInfoTable, QuestionTable } from "@/drizzle/schema"
 import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { withPublicCodingSpec } from "@/features/questions/codingSpec"
+import { getQuestionTopics } from "@/features/questions/db"
+import { getQuestionIdTag } from "@/features/questions/dbCache"
 import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
 import { and, eq } from "drizzle-orm"
 import { Loader2Icon } from "lucide-react"
@@ -11,10 +14,13 @@ import { NewQuestionClientPage } from "./_NewQuestionClientPage"
 
 export default async function QuestionsPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ jobInfoId: string }>
+  searchParams: Promise<{ questionId?: string; topic?: string }>
 }) {
   const { jobInfoId } = await params
+  const { questionId, topic } = await searchParams
 
   return (
     <Suspense
@@ -24,19 +30,43 @@ export default async function QuestionsPage({
         </div>
       }
     >
-      <SuspendedComponent jobInfoId={jobInfoId} />
+      <SuspendedComponent
+        jobInfoId={jobInfoId}
+        questionId={questionId}
+        topic={topic}
+      />
     </Suspense>
   )
 }
 
-async function SuspendedComponent({ jobInfoId }: { jobInfoId: string }) {
+async function SuspendedComponent({
+  jobInfoId,
+  questionId,
+  topic,
+}: {
+  jobInfoId: string
+  questionId?: string
+  topic?: string
+}) {
   const { userId, redirectToSignIn } = await getCurrentUser()
   if (userId == null) return redirectToSignIn()
 
   const jobInfo = await getJobInfo(jobInfoId, userId)
   if (jobInfo == null) return notFound()
 
-  return <NewQuestionClientPage jobInfo={jobInfo} />
+  const [question, topics] = await Promise.all([
+    questionId == null ? null : getQuestion(questionId, jobInfoId),
+    getQuestionTopics(jobInfoId),
+  ])
+
+  return (
+    <NewQuestionClientPage
+      jobInfo={jobInfo}
+      question={question == null ? undefined : withPublicCodingSpec(question)}
+      topic={topic}
+      topics={topics}
+    />
+  )
 }
 
 async function getJobInfo(id: string, userId: string) {
@@ -47,3 +77,23 @@ async function getJobInfo(id: string, userId: string) {
     where: and(eq(JobInfoTable.id, id), eq(JobInfoTable.userId, userId)),
   })
 }
+
+async function getQuestion(id: string, jobInfoId: string) {
+  "use cache"
+  cacheTag(getQuestionIdTag(id))
+
+  return db.query.QuestionTable.findFirst({
+    columns: {
+      id: true,
+      text: true,
+      type: true,
+      kind: true,
+      codingSpec: true,
+      topic: true,
+    },
+    where: and(
+      eq(QuestionTable.id, id),
+      eq(QuestionTable.jobInfoId, jobInfoId)
+    ),
+  })
+}
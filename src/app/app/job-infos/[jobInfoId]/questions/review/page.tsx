@@ -0,0 +1,75 @@
+import { db } from "@/drizzle/db"
+import { JobInfoTable, QuestionTable } from "@/drizzle/schema"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { ReviewSession } from "@/features/questionReviews/components/ReviewSession"
+import { getQuestionReviewJobInfoTag } from "@/features/questionReviews/dbCache"
+import { getDueQuestions } from "@/features/questionReviews/scheduler"
+import { withPublicCodingSpec } from "@/features/questions/codingSpec"
+import { getQuestionJobInfoTag } from "@/features/questions/dbCache"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { and, eq } from "drizzle-orm"
+import { Loader2Icon } from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import { notFound } from "next/navigation"
+import { Suspense } from "react"
+
+export default async function QuestionReviewPage({
+  params,
+}: {
+  params: Promise<{ jobInfoId: string }>
+}) {
+  const { jobInfoId } = await params
+
+  return (
+    <Suspense
+      fallback={
+        <div className="h-screen-header flex items-center justify-center">
+          <Loader2Icon className="animate-spin size-24" />
+        </div>
+      }
+    >
+      <SuspendedComponent jobInfoId={jobInfoId} />
+    </Suspense>
+  )
+}
+
+async function SuspendedComponent({ jobInfoId }: { jobInfoId: string }) {
+  const { userId, redirectToSignIn } = await getCurrentUser()
+  if (userId == null) return redirectToSignIn()
+
+  const jobInfo = await getJobInfo(jobInfoId, userId)
+  if (jobInfo == null) return notFound()
+
+  const dueQuestions = getDueQuestions(await getQuestions(jobInfoId)).map(
+    withPublicCodingSpec
+  )
+
+  return (
+    <ReviewSession
+      questions={dueQuestions}
+      backHref={`/app/job-infos/${jobInfoId}/questions`}
+      backLabel={jobInfo.name}
+    />
+  )
+}
+
+async function getQuestions(jobInfoId: string) {
+  "use cache"
+  cacheTag(getQuestionJobInfoTag(jobInfoId))
+  cacheTag(getQuestionReviewJobInfoTag(jobInfoId))
+
+  return db.query.QuestionTable.findMany({
+    columns: { id: true, text: true, difficulty: true, codingSpec: true },
+    where: eq(QuestionTable.jobInfoId, jobInfoId),
+    with: { review: { columns: { dueAt: true, lastRating: true } } },
+  })
+}
+
+async function getJobInfo(id: string, userId: string) {
+  "use cache"
+  cacheTag(getJobInfoIdTag(id))
+
+  return db.query.JobInfoTable.findFirst({
+    where: and(eq(JobInfoTable.id, id), eq(JobInfoTable.userId, userId)),
+  })
+}
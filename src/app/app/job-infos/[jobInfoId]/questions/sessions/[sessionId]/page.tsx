@@ -0,0 +1,219 @@
+import { BackLink } from "@/components/BackLink"
+import { Badge } from "@/components/ui/badge"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { db } from "@/drizzle/db"
+import { QuestionAttemptTable, QuestionSessionTable } from "@/drizzle/schema"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { QuestionRatingBadge } from "@/features/questionAttempts/components/QuestionRatingBadge"
+import { getQuestionAttemptJobInfoTag } from "@/features/questionAttempts/dbCache"
+import {
+  formatQuestionDifficulty,
+  formatQuestionKind,
+} from "@/features/questions/formatters"
+import { formatQuestionTopic } from "@/features/questions/topics"
+import { QuestionSessionRunner } from "@/features/questionSessions/components/QuestionSessionRunner"
+import { getQuestionSessionIdTag } from "@/features/questionSessions/dbCache"
+import { getQuestionSessionSummary } from "@/features/questionSessions/summary"
+import { formatDateTime, formatDuration } from "@/lib/formatters"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { asc, eq } from "drizzle-orm"
+import { ArrowRightIcon, Loader2Icon } from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ReactNode, Suspense } from "react"
+
+export default async function QuestionSessionPage({
+  params,
+}: {
+  params: Promise<{ jobInfoId: string; sessionId: string }>
+}) {
+  const { jobInfoId, sessionId } = await params
+
+  return (
+    <Suspense
+      fallback={
+        <div className="h-screen-header flex items-center justify-center">
+          <Loader2Icon className="animate-spin size-24" />
+        </div>
+      }
+    >
+      <SuspendedPage jobInfoId={jobInfoId} sessionId={sessionId} />
+    </Suspense>
+  )
+}
+
+async function SuspendedPage({
+  jobInfoId,
+  sessionId,
+}: {
+  jobInfoId: string
+  sessionId: string
+}) {
+  const { userId, redirectToSignIn } = await getCurrentUser()
+  if (userId == null) return redirectToSignIn()
+
+  const session = await getQuestionSession(sessionId, userId)
+  if (session == null || session.jobInfoId !== jobInfoId) return notFound()
+
+  if (session.completedAt == null) {
+    return (
+      <QuestionSessionRunner
+        session={session}
+        answeredCount={session.attempts.length}
+      />
+    )
+  }
+
+  const summary = getQuestionSessionSummary(session.attempts)
+
+  return (
+    <div className="container py-4 space-y-6">
+      <BackLink href={`/app/job-infos/${jobInfoId}/questions/sessions`}>
+        Practice Sessions
+      </BackLink>
+
+      <div className="space-y-2">
+        <h1 className="text-3xl md:text-4xl lg:text-5xl">Session Summary</h1>
+        <div className="flex flex-wrap items-center gap-2 text-muted-foreground">
+          {formatDateTime(session.createdAt)}
+          <Badge variant="outline">{formatQuestionKind(session.kind)}</Badge>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard label="Average Rating">
+          <QuestionRatingBadge rating={summary.averageRating} />
+        </StatCard>
+        <StatCard label="Questions Answered">
+          {summary.answeredCount}/{session.difficulties.length}
+        </StatCard>
+        <StatCard label="Total Time">
+          {formatDuration(summary.totalTimeSeconds)}
+        </StatCard>
+        <StatCard label="Average Time per Question">
+          {formatDuration(summary.averageTimeSeconds)}
+        </StatCard>
+      </div>
+
+      {summary.weakestTopics.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-2xl font-semibold">Weakest Topics</h2>
+          <div className="flex flex-wrap gap-2">
+            {summary.weakestTopics.map(topic => (
+              <Link
+                key={topic.topic ?? ""}
+                href={`/app/job-infos/${jobInfoId}/questions${
+                  topic.topic == null
+                    ? ""
+                    : `?${new URLSearchParams({ topic: topic.topic })}`
+                }`}
+                className="flex items-center gap-2 border rounded-lg px-3 py-2 hover:border-primary/50 transition-colors"
+              >
+                {formatQuestionTopic(topic.topic)}
+                <QuestionRatingBadge rating={topic.averageRating} />
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h2 className="text-2xl font-semibold">Questions</h2>
+        {session.attempts.length === 0 ? (
+          <p className="text-muted-foreground">
+            No questions were answered in this session.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 has-hover:*:not-hover:opacity-70">
+            {session.attempts.map((attempt, index) => (
+              <Link
+                key={attempt.id}
+                className="hover:scale-[1.02] transition-[transform_opacity]"
+                href={`/app/job-infos/${jobInfoId}/questions/history/${attempt.question.id}`}
+              >
+                <Card className="h-full">
+                  <div className="flex items-center justify-between h-full">
+                    <CardHeader className="gap-2 flex-grow">
+                      <CardTitle className="text-lg">
+                        Question {index + 1}
+                      </CardTitle>
+                      <CardDescription className="flex flex-wrap gap-2">
+                        <Badge variant="outline">
+                          {formatQuestionDifficulty(
+                            attempt.question.difficulty
+                          )}
+                        </Badge>
+                        {attempt.question.topic && (
+                          <Badge variant="outline">
+                            {attempt.question.topic}
+                          </Badge>
+                        )}
+                        <QuestionRatingBadge rating={attempt.rating} />
+                        {attempt.timeSpentSeconds != null && (
+                          <Badge variant="secondary">
+                            {formatDuration(attempt.timeSpentSeconds)}
+                          </Badge>
+                        )}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ArrowRightIcon className="size-6" />
+                    </CardContent>
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function StatCard({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <Card>
+      <CardHeader className="gap-2">
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-2xl tabular-nums">{children}</CardTitle>
+      </CardHeader>
+    </Card>
+  )
+}
+
+async function getQuestionSession(id: string, userId: string) {
+  "use cache"
+  cacheTag(getQuestionSessionIdTag(id))
+
+  const session = await db.query.QuestionSessionTable.findFirst({
+    where: eq(QuestionSessionTable.id, id),
+    with: {
+      jobInfo: { columns: { id: true, userId: true } },
+      attempts: {
+        columns: {
+          id: true,
+          rating: true,
+          timeSpentSeconds: true,
+        },
+        with: {
+          question: { columns: { id: true, difficulty: true, topic: true } },
+        },
+        orderBy: asc(QuestionAttemptTable.createdAt),
+      },
+    },
+  })
+
+  if (session == null) return null
+  cacheTag(getJobInfoIdTag(session.jobInfo.id))
+  cacheTag(getQuestionAttemptJobInfoTag(session.jobInfo.id))
+
+  if (session.jobInfo.userId !== userId) return null
+  return session
+}
@@ -0,0 +1,59 @@
+import { BackLink } from "@/components/BackLink"
+import { Card, CardContent } from "@/components/ui/card"
+import { db } from "@/drizzle/db"
+import { JobInfoTable } from "@/drizzle/schema"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { QuestionSessionForm } from "@/features/questionSessions/components/QuestionSessionForm"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { and, eq } from "drizzle-orm"
+import { Loader2 } from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import { notFound } from "next/navigation"
+import { Suspense } from "react"
+
+export default async function NewQuestionSessionPage({
+  params,
+}: {
+  params: Promise<{ jobInfoId: string }>
+}) {
+  const { jobInfoId } = await params
+
+  return (
+    <div className="container my-4 max-w-5xl space-y-4">
+      <BackLink href={`/app/job-infos/${jobInfoId}/questions/sessions`}>
+        Practice Sessions
+      </BackLink>
+
+      <h1 className="text-3xl md:text-4xl">New Practice Session</h1>
+
+      <Card>
+        <CardContent>
+          <Suspense
+            fallback={<Loader2 className="size-24 animate-spin mx-auto" />}
+          >
+            <SuspendedForm jobInfoId={jobInfoId} />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+async function SuspendedForm({ jobInfoId }: { jobInfoId: string }) {
+  const { userId, redirectToSignIn } = await getCurrentUser()
+  if (userId == null) return redirectToSignIn()
+
+  const jobInfo = await getJobInfo(jobInfoId, userId)
+  if (jobInfo == null) return notFound()
+
+  return <QuestionSessionForm jobInfoId={jobInfo.id} />
+}
+
+async function getJobInfo(id: string, userId: string) {
+  "use cache"
+  cacheTag(getJobInfoIdTag(id))
+
+  return db.query.JobInfoTable.findFirst({
+    where: and(eq(JobInfoTable.id, id), eq(JobInfoTable.userId, userId)),
+  })
+}
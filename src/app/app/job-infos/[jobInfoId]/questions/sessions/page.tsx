@@ -0,0 +1,128 @@
+import { BackLink } from "@/components/BackLink"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { db } from "@/drizzle/db"
+import { QuestionSessionTable } from "@/drizzle/schema"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { getQuestionAttemptJobInfoTag } from "@/features/questionAttempts/dbCache"
+import { formatQuestionKind } from "@/features/questions/formatters"
+import { getQuestionSessionJobInfoTag } from "@/features/questionSessions/dbCache"
+import { formatDateTime } from "@/lib/formatters"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { desc, eq } from "drizzle-orm"
+import { ArrowRightIcon, Loader2Icon, PlusIcon } from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import Link from "next/link"
+import { Suspense } from "react"
+
+export default async function QuestionSessionsPage({
+  params,
+}: {
+  params: Promise<{ jobInfoId: string }>
+}) {
+  const { jobInfoId } = await params
+
+  return (
+    <div className="container py-4 space-y-6">
+      <BackLink href={`/app/job-infos/${jobInfoId}/questions`}>
+        Practice Questions
+      </BackLink>
+
+      <div className="flex gap-2 justify-between">
+        <h1 className="text-3xl md:text-4xl lg:text-5xl">Practice Sessions</h1>
+        <Button asChild>
+          <Link href={`/app/job-infos/${jobInfoId}/questions/sessions/new`}>
+            <PlusIcon />
+            New Session
+          </Link>
+        </Button>
+      </div>
+
+      <Suspense
+        fallback={<Loader2Icon className="size-24 animate-spin mx-auto" />}
+      >
+        <SuspendedPage jobInfoId={jobInfoId} />
+      </Suspense>
+    </div>
+  )
+}
+
+async function SuspendedPage({ jobInfoId }: { jobInfoId: string }) {
+  const { userId, redirectToSignIn } = await getCurrentUser()
+  if (userId == null) return redirectToSignIn()
+
+  const sessions = await getQuestionSessions(jobInfoId, userId)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 has-hover:*:not-hover:opacity-70">
+      <Link
+        className="transition-opacity"
+        href={`/app/job-infos/${jobInfoId}/questions/sessions/new`}
+      >
+        <Card className="h-full flex items-center justify-center border-dashed border-3 bg-transparent hover:border-primary/50 transition-colors shadow-none">
+          <div className="text-lg flex items-center gap-2">
+            <PlusIcon className="size-6" />
+            New Session
+          </div>
+        </Card>
+      </Link>
+      {sessions.map(session => (
+        <Link
+          className="hover:scale-[1.02] transition-[transform_opacity]"
+          href={`/app/job-infos/${jobInfoId}/questions/sessions/${session.id}`}
+          key={session.id}
+        >
+          <Card className="h-full">
+            <div className="flex items-center justify-between h-full">
+              <CardHeader className="gap-2 flex-grow">
+                <CardTitle className="text-lg">
+                  {formatDateTime(session.createdAt)}
+                </CardTitle>
+                <CardDescription className="flex flex-wrap gap-2">
+                  <Badge variant="outline">
+                    {formatQuestionKind(session.kind)}
+                  </Badge>
+                  <Badge variant="secondary">
+                    {session.attempts.length}/{session.difficulties.length}{" "}
+                    answered
+                  </Badge>
+                  {session.completedAt == null && (
+                    <Badge variant="warning">In Progress</Badge>
+                  )}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ArrowRightIcon className="size-6" />
+              </CardContent>
+            </div>
+          </Card>
+        </Link>
+      ))}
+    </div>
+  )
+}
+
+async function getQuestionSessions(jobInfoId: string, userId: string) {
+  "use cache"
+  cacheTag(getQuestionSessionJobInfoTag(jobInfoId))
+  cacheTag(getQuestionAttemptJobInfoTag(jobInfoId))
+  cacheTag(getJobInfoIdTag(jobInfoId))
+
+  const data = await db.query.QuestionSessionTable.findMany({
+    where: eq(QuestionSessionTable.jobInfoId, jobInfoId),
+    with: {
+      jobInfo: { columns: { userId: true } },
+      attempts: { columns: { id: true } },
+    },
+    orderBy: desc(QuestionSessionTable.createdAt),
+  })
+
+  return data.filter(session => session.jobInfo.userId === userId)
+}
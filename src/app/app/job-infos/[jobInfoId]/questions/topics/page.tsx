@@ -0,0 +1,132 @@
+import { BackLink } from "@/components/BackLink"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { db } from "@/drizzle/db"
+import { QuestionAttemptTable, QuestionTable } from "@/drizzle/schema"
+import { QuestionRatingBadge } from "@/features/questionAttempts/components/QuestionRatingBadge"
+import { getQuestionAttemptJobInfoTag } from "@/features/questionAttempts/dbCache"
+import { getJobInfoIdTag } from "@/features/jobInfos/dbCache"
+import { getQuestionJobInfoTag } from "@/features/questions/dbCache"
+import {
+  formatQuestionTopic,
+  getQuestionTopicCoverage,
+} from "@/features/questions/topics"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { desc, eq } from "drizzle-orm"
+import { Loader2Icon } from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import Link from "next/link"
+import { Suspense } from "react"
+
+export default async function QuestionTopicsPage({
+  params,
+}: {
+  params: Promise<{ jobInfoId: string }>
+}) {
+  const { jobInfoId } = await params
+
+  return (
+    <div className="container py-4 space-y-6">
+      <BackLink href={`/app/job-infos/${jobInfoId}/questions`}>
+        Practice Questions
+      </BackLink>
+
+      <div className="space-y-2">
+        <h1 className="text-3xl md:text-4xl lg:text-5xl">Topic Coverage</h1>
+        <p className="text-muted-foreground">
+          Topics you have not practiced much or scored poorly on are listed
+          first.
+        </p>
+      </div>
+
+      <Suspense
+        fallback={<Loader2Icon className="size-24 animate-spin mx-auto" />}
+      >
+        <SuspendedPage jobInfoId={jobInfoId} />
+      </Suspense>
+    </div>
+  )
+}
+
+async function SuspendedPage({ jobInfoId }: { jobInfoId: string }) {
+  const { userId, redirectToSignIn } = await getCurrentUser()
+  if (userId == null) return redirectToSignIn()
+
+  const coverage = getQuestionTopicCoverage(
+    await getQuestions(jobInfoId, userId)
+  )
+
+  if (coverage.length === 0) {
+    return (
+      <p className="text-muted-foreground text-center py-12">
+        You have not answered any questions for this job yet.
+      </p>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {coverage.map(topic => (
+        <Card key={topic.topic ?? ""}>
+          <CardHeader className="gap-2">
+            <CardTitle className="text-lg">
+              {formatQuestionTopic(topic.topic)}
+            </CardTitle>
+            <CardDescription className="flex flex-wrap gap-2">
+              <QuestionRatingBadge rating={topic.averageRating} />
+              <Badge variant="secondary">
+                {topic.questionCount}{" "}
+                {topic.questionCount === 1 ? "question" : "questions"}
+              </Badge>
+              <Badge variant="secondary">
+                {topic.attemptCount}{" "}
+                {topic.attemptCount === 1 ? "attempt" : "attempts"}
+              </Badge>
+            </CardDescription>
+          </CardHeader>
+          <CardFooter className="mt-auto">
+            <Button asChild variant="outline" size="sm">
+              <Link
+                href={`/app/job-infos/${jobInfoId}/questions${
+                  topic.topic == null
+                    ? ""
+                    : `?${new URLSearchParams({ topic: topic.topic })}`
+                }`}
+              >
+                Practice
+              </Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+async function getQuestions(jobInfoId: string, userId: string) {
+  "use cache"
+  cacheTag(getQuestionJobInfoTag(jobInfoId))
+  cacheTag(getQuestionAttemptJobInfoTag(jobInfoId))
+  cacheTag(getJobInfoIdTag(jobInfoId))
+
+  const data = await db.query.QuestionTable.findMany({
+    columns: { topic: true },
+    where: eq(QuestionTable.jobInfoId, jobInfoId),
+    with: {
+      jobInfo: { columns: { userId: true } },
+      attempts: {
+        columns: { rating: true },
+        orderBy: desc(QuestionAttemptTable.createdAt),
+      },
+    },
+  })
+
+  return data.filter(question => question.jobInfo.userId === userId)
+}
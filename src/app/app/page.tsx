@@ -14,7 +14,13 @@ import { getJobInfoUserTag } from "@/features/jobInfos/dbCache"
 import { formatExperienceLevel } from "@/features/jobInfos/lib/formatters"
 import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
 import { desc, eq } from "drizzle-orm"
-import { ArrowRightIcon, Loader2Icon, PlusIcon } from "lucide-react"
+import {
+  ArrowRightIcon,
+  CalendarClockIcon,
+  ChartLineIcon,
+  Loader2Icon,
+  PlusIcon,
+} from "lucide-react"
 import { cacheTag } from "next/dist/server/use-cache/cache-tag"
 import Link from "next/link"
 import { Suspense } from "react"
@@ -49,12 +55,26 @@ async function JobInfos() {
         <h1 className="text-3xl md:text-4xl lg:text-5xl">
           Select a job description
         </h1>
-        <Button asChild>
-          <Link href="/app/job-infos/new">
-            <PlusIcon />
-            Create Job Description
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <Link href="/app/progress">
+              <ChartLineIcon />
+              Progress
+            </Link>
+          </Button>
+          <Button asChild variant="outline">
+            <Link href="/app/review">
+              <CalendarClockIcon />
+              Due for Review
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/app/job-infos/new">
+              <PlusIcon />
+              Create Job Description
+            </Link>
+          </Button>
+        </div>
       </div>
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 has-hover:*:not-hover:opacity-70">
         {jobInfos.map(jobInfo => (
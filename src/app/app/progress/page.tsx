@@ -0,0 +1,82 @@
+import { BackLink } from "@/components/BackLink"
+import { Button } from "@/components/ui/button"
+import { db } from "@/drizzle/db"
+import { JobInfoTable } from "@/drizzle/schema"
+import { getInterviewGlobalTag } from "@/features/interviews/dbCache"
+import { getJobInfoUserTag } from "@/features/jobInfos/dbCache"
+import { ProgressDashboard } from "@/features/progress/components/ProgressDashboard"
+import { getProgressStats } from "@/features/progress/stats"
+import { getQuestionAttemptGlobalTag } from "@/features/questionAttempts/dbCache"
+import { getQuestionGlobalTag } from "@/features/questions/dbCache"
+import { getResumeAnalysisGlobalTag } from "@/features/resumeAnalyses/dbCache"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { eq } from "drizzle-orm"
+import { ArrowRightIcon, Loader2Icon } from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import Link from "next/link"
+import { Suspense } from "react"
+
+export default function ProgressPage() {
+  return (
+    <div className="container py-4 space-y-6">
+      <BackLink href="/app">Dashboard</BackLink>
+      <h1 className="text-3xl md:text-4xl lg:text-5xl">Progress</h1>
+
+      <Suspense
+        fallback={<Loader2Icon className="size-24 animate-spin mx-auto" />}
+      >
+        <SuspendedPage />
+      </Suspense>
+    </div>
+  )
+}
+
+async function SuspendedPage() {
+  const { userId, redirectToSignIn } = await getCurrentUser()
+  if (userId == null) return redirectToSignIn()
+
+  const jobInfos = await getJobInfos(userId)
+
+  return (
+    <div className="space-y-6">
+      <ProgressDashboard stats={getProgressStats(jobInfos)} />
+      {jobInfos.length > 1 && (
+        <div className="space-y-2">
+          <h2 className="text-2xl">By Job Description</h2>
+          <div className="flex flex-wrap gap-2">
+            {jobInfos.map(jobInfo => (
+              <Button key={jobInfo.id} variant="outline" asChild>
+                <Link href={`/app/job-infos/${jobInfo.id}/progress`}>
+                  {jobInfo.name}
+                  <ArrowRightIcon />
+                </Link>
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+async function getJobInfos(userId: string) {
+  "use cache"
+  cacheTag(getJobInfoUserTag(userId))
+  cacheTag(getInterviewGlobalTag())
+  cacheTag(getQuestionGlobalTag())
+  cacheTag(getQuestionAttemptGlobalTag())
+  cacheTag(getResumeAnalysisGlobalTag())
+
+  return db.query.JobInfoTable.findMany({
+    columns: { id: true, name: true },
+    where: eq(JobInfoTable.userId, userId),
+    with: {
+      interviews: { columns: { createdAt: true, overallScore: true } },
+      questions: {
+        columns: { difficulty: true, topic: true },
+        with: { attempts: { columns: { createdAt: true, rating: true } } },
+      },
+      resumeAnalyses: { columns: { createdAt: true, overallScore: true } },
+    },
+  })
+}
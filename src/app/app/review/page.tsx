@@ -0,0 +1,68 @@
+import { db } from "@/drizzle/db"
+import { JobInfoTable } from "@/drizzle/schema"
+import { getJobInfoUserTag } from "@/features/jobInfos/dbCache"
+import { ReviewSession } from "@/features/questionReviews/components/ReviewSession"
+import { getQuestionReviewUserTag } from "@/features/questionReviews/dbCache"
+import { getDueQuestions } from "@/features/questionReviews/scheduler"
+import { withPublicCodingSpec } from "@/features/questions/codingSpec"
+import { getQuestionGlobalTag } from "@/features/questions/dbCache"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { eq } from "drizzle-orm"
+import { Loader2Icon } from "lucide-react"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import { Suspense } from "react"
+
+export default function ReviewPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="h-screen-header flex items-center justify-center">
+          <Loader2Icon className="animate-spin size-24" />
+        </div>
+      }
+    >
+      <SuspendedComponent />
+    </Suspense>
+  )
+}
+
+async function SuspendedComponent() {
+  const { userId, redirectToSignIn } = await getCurrentUser()
+  if (userId == null) return redirectToSignIn()
+
+  const jobInfos = await getJobInfos(userId)
+  const dueQuestions = getDueQuestions(
+    jobInfos.flatMap(jobInfo =>
+      jobInfo.questions.map(question => ({
+        ...question,
+        jobInfoName: jobInfo.name,
+      }))
+    )
+  ).map(withPublicCodingSpec)
+
+  return (
+    <ReviewSession
+      questions={dueQuestions}
+      backHref="/app"
+      backLabel="Dashboard"
+    />
+  )
+}
+
+async function getJobInfos(userId: string) {
+  "use cache"
+  cacheTag(getJobInfoUserTag(userId))
+  cacheTag(getQuestionReviewUserTag(userId))
+  cacheTag(getQuestionGlobalTag())
+
+  return db.query.JobInfoTable.findMany({
+    columns: { id: true, name: true },
+    where: eq(JobInfoTable.userId, userId),
+    with: {
+      questions: {
+        columns: { id: true, text: true, difficulty: true, codingSpec: true },
+        with: { review: { columns: { dueAt: true, lastRating: true } } },
+      },
+    },
+  })
+}
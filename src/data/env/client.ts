@@ -8,6 +8,7 @@ export const env = createEnv({
     NEXT_PUBLIC_CLERK_SIGN_UP_FORCE_REDIRECT_URL: z.string().min(1),
     NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY: z.string().min(1),
     NEXT_PUBLIC_HUME_CONFIG_ID: z.string().min(1),
+    NEXT_PUBLIC_HUME_MODE: z.enum(["live", "fake"]).default("live"),
   },
   emptyStringAsUndefined: true,
   experimental__runtimeEnv: {
@@ -19,5 +20,6 @@ export const env = createEnv({
     NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY:
       process.env.NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY,
     NEXT_PUBLIC_HUME_CONFIG_ID: process.env.NEXT_PUBLIC_HUME_CONFIG_ID,
+    NEXT_PUBLIC_HUME_MODE: process.env.NEXT_PUBLIC_HUME_MODE,
   },
 })
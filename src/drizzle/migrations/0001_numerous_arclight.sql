@@ -0,0 +1,11 @@
+CREATE TABLE "question_attempts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"questionId" uuid NOT NULL,
+	"answer" varchar NOT NULL,
+	"feedback" varchar NOT NULL,
+	"rating" integer,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "question_attempts" ADD CONSTRAINT "question_attempts_questionId_questions_id_fk" FOREIGN KEY ("questionId") REFERENCES "public"."questions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "question_attempts" ADD COLUMN "structuredFeedback" jsonb;
\ No newline at end of file
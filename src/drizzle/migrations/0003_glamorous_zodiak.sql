@@ -0,0 +1 @@
+ALTER TABLE "questions" ADD COLUMN "difficultyReason" varchar;
\ No newline at end of file
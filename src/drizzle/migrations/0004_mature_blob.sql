@@ -0,0 +1,14 @@
+CREATE TABLE "question_reviews" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"questionId" uuid NOT NULL,
+	"easeFactor" real NOT NULL,
+	"intervalDays" integer NOT NULL,
+	"repetitions" integer NOT NULL,
+	"lastRating" integer NOT NULL,
+	"dueAt" timestamp with time zone NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "question_reviews_questionId_unique" UNIQUE("questionId")
+);
+--> statement-breakpoint
+ALTER TABLE "question_reviews" ADD CONSTRAINT "question_reviews_questionId_questions_id_fk" FOREIGN KEY ("questionId") REFERENCES "public"."questions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+CREATE TYPE "public"."questions_question_type" AS ENUM('standard', 'coding');--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "type" "questions_question_type" DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "codingSpec" jsonb;
\ No newline at end of file
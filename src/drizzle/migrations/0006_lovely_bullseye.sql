@@ -0,0 +1 @@
+ALTER TABLE "questions" ADD COLUMN "topic" varchar;
\ No newline at end of file
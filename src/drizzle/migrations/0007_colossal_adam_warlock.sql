@@ -0,0 +1,2 @@
+CREATE TYPE "public"."questions_question_kind" AS ENUM('technical', 'behavioral', 'system-design');--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "kind" "questions_question_kind" DEFAULT 'technical' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "questions" ADD COLUMN "parentQuestionId" uuid;--> statement-breakpoint
+ALTER TABLE "question_attempts" ADD COLUMN "hintsUsed" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "questions" ADD CONSTRAINT "questions_parentQuestionId_questions_id_fk" FOREIGN KEY ("parentQuestionId") REFERENCES "public"."questions"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "question_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"jobInfoId" uuid NOT NULL,
+	"difficulties" jsonb NOT NULL,
+	"kind" varchar DEFAULT 'technical' NOT NULL,
+	"timeLimitSeconds" integer NOT NULL,
+	"completedAt" timestamp with time zone,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "question_attempts" ADD COLUMN "sessionId" uuid;--> statement-breakpoint
+ALTER TABLE "question_attempts" ADD COLUMN "timeSpentSeconds" integer;--> statement-breakpoint
+ALTER TABLE "question_sessions" ADD CONSTRAINT "question_sessions_jobInfoId_job_info_id_fk" FOREIGN KEY ("jobInfoId") REFERENCES "public"."job_info"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "question_attempts" ADD CONSTRAINT "question_attempts_sessionId_question_sessions_id_fk" FOREIGN KEY ("sessionId") REFERENCES "public"."question_sessions"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
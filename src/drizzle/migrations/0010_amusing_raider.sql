@@ -0,0 +1,13 @@
+CREATE TYPE "public"."interviews_interview_mode" AS ENUM('voice', 'text');--> statement-breakpoint
+CREATE TYPE "public"."interview_messages_speaker" AS ENUM('interviewer', 'interviewee');--> statement-breakpoint
+CREATE TABLE "interview_messages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"interviewId" uuid NOT NULL,
+	"speaker" "interview_messages_speaker" NOT NULL,
+	"text" varchar NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "mode" "interviews_interview_mode" DEFAULT 'voice' NOT NULL;--> statement-breakpoint
+ALTER TABLE "interview_messages" ADD CONSTRAINT "interview_messages_interviewId_interviews_id_fk" FOREIGN KEY ("interviewId") REFERENCES "public"."interviews"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
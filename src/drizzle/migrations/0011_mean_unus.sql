@@ -0,0 +1,4 @@
+ALTER TABLE "interview_messages" ADD COLUMN "emotionFeatures" jsonb;--> statement-breakpoint
+ALTER TABLE "interview_messages" ADD COLUMN "humeEventId" varchar;--> statement-breakpoint
+ALTER TABLE "interview_messages" ADD COLUMN "sentAt" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "interview_messages" ADD CONSTRAINT "interview_messages_humeEventId_unique" UNIQUE("humeEventId");
\ No newline at end of file
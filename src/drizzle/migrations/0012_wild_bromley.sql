@@ -0,0 +1,9 @@
+ALTER TABLE "interviews" ADD COLUMN "structuredFeedback" jsonb;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "overallScore" integer;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "communicationClarityScore" integer;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "confidenceScore" integer;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "responseQualityScore" integer;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "pacingScore" integer;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "engagementScore" integer;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "roleFitScore" integer;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "overallAssessmentScore" integer;
\ No newline at end of file
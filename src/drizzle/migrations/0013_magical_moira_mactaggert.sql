@@ -0,0 +1 @@
+ALTER TABLE "interviews" ADD COLUMN "emotionAnalysis" jsonb;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TYPE "public"."interviews_interview_type" AS ENUM('screening', 'technical', 'behavioral', 'hiring-manager');--> statement-breakpoint
+CREATE TYPE "public"."interviews_interviewer_persona" AS ENUM('friendly', 'neutral', 'challenging');--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "type" "interviews_interview_type" DEFAULT 'screening' NOT NULL;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "persona" "interviews_interviewer_persona" DEFAULT 'neutral' NOT NULL;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "targetDurationMinutes" integer;
\ No newline at end of file
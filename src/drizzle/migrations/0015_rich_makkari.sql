@@ -0,0 +1,6 @@
+ALTER TABLE "interviews" ADD COLUMN "durationSeconds" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "startedAt" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "endedAt" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "pacingMetrics" jsonb;--> statement-breakpoint
+UPDATE "interviews" SET "durationSeconds" = split_part("duration", ':', 1)::integer * 3600 + split_part("duration", ':', 2)::integer * 60 + split_part("duration", ':', 3)::integer WHERE "duration" ~ '^\d+:\d{2}:\d{2}$';--> statement-breakpoint
+UPDATE "interviews" SET "startedAt" = "createdAt", "endedAt" = "createdAt" + make_interval(secs => "durationSeconds");
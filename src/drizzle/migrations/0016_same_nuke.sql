@@ -0,0 +1 @@
+ALTER TABLE "interviews" DROP COLUMN "duration";
\ No newline at end of file
@@ -0,0 +1,3 @@
+CREATE TYPE "public"."interviews_feedback_status" AS ENUM('pending', 'processing', 'completed', 'failed');--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "feedbackStatus" "interviews_feedback_status";--> statement-breakpoint
+UPDATE "interviews" SET "feedbackStatus" = 'completed' WHERE "feedback" IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "resume_analyses" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"jobInfoId" uuid NOT NULL,
+	"fileName" varchar NOT NULL,
+	"overallScore" real NOT NULL,
+	"analysis" jsonb NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "resume_analyses" ADD CONSTRAINT "resume_analyses_jobInfoId_job_info_id_fk" FOREIGN KEY ("jobInfoId") REFERENCES "public"."job_info"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "interviews" ADD COLUMN "durationSyncedAt" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "interviews" ADD COLUMN "humeChatGroupId" varchar;--> statement-breakpoint
+UPDATE "interviews" SET "durationSyncedAt" = "startedAt" + make_interval(secs => "durationSeconds");
\ No newline at end of file
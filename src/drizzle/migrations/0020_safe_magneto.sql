@@ -0,0 +1,11 @@
+CREATE TABLE "question_hints" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"questionId" uuid NOT NULL,
+	"attemptId" uuid,
+	"text" varchar NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "question_hints" ADD CONSTRAINT "question_hints_questionId_questions_id_fk" FOREIGN KEY ("questionId") REFERENCES "public"."questions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "question_hints" ADD CONSTRAINT "question_hints_attemptId_question_attempts_id_fk" FOREIGN KEY ("attemptId") REFERENCES "public"."question_attempts"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
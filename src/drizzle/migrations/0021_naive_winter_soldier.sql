@@ -0,0 +1 @@
+ALTER TABLE "interviews" ADD COLUMN "transcriptSyncedAt" timestamp with time zone;
\ No newline at end of file
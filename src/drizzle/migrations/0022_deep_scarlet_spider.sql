@@ -0,0 +1,2 @@
+ALTER TABLE "question_hints" ALTER COLUMN "text" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "question_hints" ADD COLUMN "practiceId" uuid;
\ No newline at end of file
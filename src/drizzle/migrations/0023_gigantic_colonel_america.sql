@@ -0,0 +1,3 @@
+ALTER TABLE "question_sessions" ALTER COLUMN "kind" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "question_sessions" ALTER COLUMN "kind" SET DATA TYPE "public"."questions_question_kind" USING "kind"::"public"."questions_question_kind";--> statement-breakpoint
+ALTER TABLE "question_sessions" ALTER COLUMN "kind" SET DEFAULT 'technical'::"public"."questions_question_kind";
@@ -1,4 +1,11 @@
 export * from "./schema/user"
 export * from "./schema/jobInfo"
 export * from "./schema/interview"
+export * from "./schema/interviewMessage"
 export * from "./schema/question"
+export * from "./schema/questionKind"
+export * from "./schema/questionAttempt"
+export * from "./schema/questionHint"
+export * from "./schema/questionReview"
+export * from "./schema/questionSession"
+export * from "./schema/resumeAnalysis"
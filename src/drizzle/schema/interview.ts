@@ -1,23 +1,104 @@
-import { pgTable, uuid, varchar } from "drizzle-orm/pg-core"
+import {
+  integer,
+  jsonb,
+  pgEnum,
+  pgTable,
+  timestamp,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core"
 import { createdAt, id, updatedAt } from "../schemaHelpers"
 import { JobInfoTable } from "./jobInfo"
 import { relations } from "drizzle-orm/relations"
+import { InterviewMessageTable } from "./interviewMessage"
+import type { AiInterviewFeedback } from "@/services/ai/interviewSchemas"
+import type { InterviewEmotionAnalysis } from "@/features/interviews/emotionAnalysis"
+import type { InterviewPacingMetrics } from "@/features/interviews/pacingMetrics"
+
+export const interviewModes = ["voice", "text"] as const
+export type InterviewMode = (typeof interviewModes)[number]
+export const interviewModeEnum = pgEnum(
+  "interviews_interview_mode",
+  interviewModes
+)
+
+export const interviewTypes = [
+  "screening",
+  "technical",
+  "behavioral",
+  "hiring-manager",
+] as const
+export type InterviewType = (typeof interviewTypes)[number]
+export const interviewTypeEnum = pgEnum(
+  "interviews_interview_type",
+  interviewTypes
+)
+
+export const interviewerPersonas = [
+  "friendly",
+  "neutral",
+  "challenging",
+] as const
+export type InterviewerPersona = (typeof interviewerPersonas)[number]
+export const interviewerPersonaEnum = pgEnum(
+  "interviews_interviewer_persona",
+  interviewerPersonas
+)
+
+export const interviewFeedbackStatuses = [
+  "pending",
+  "processing",
+  "completed",
+  "failed",
+] as const
+export type InterviewFeedbackStatus = (typeof interviewFeedbackStatuses)[number]
+export const interviewFeedbackStatusEnum = pgEnum(
+  "interviews_feedback_status",
+  interviewFeedbackStatuses
+)
 
 export const InterviewTable = pgTable("interviews", {
   id,
   jobInfoId: uuid()
     .references(() => JobInfoTable.id, { onDelete: "cascade" })
     .notNull(),
-  duration: varchar().notNull(),
+  mode: interviewModeEnum().notNull().default("voice"),
+  type: interviewTypeEnum().notNull().default("screening"),
+  persona: interviewerPersonaEnum().notNull().default("neutral"),
+  targetDurationMinutes: integer(),
+  durationSeconds: integer().notNull().default(0),
+  startedAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+  // When durationSeconds was last brought up to date
+  durationSyncedAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+  endedAt: timestamp({ withTimezone: true }),
+  pacingMetrics: jsonb().$type<InterviewPacingMetrics>(),
   humeChatId: varchar(),
+  humeChatGroupId: varchar(),
+  // When the stored transcript was last brought up to date with Hume
+  transcriptSyncedAt: timestamp({ withTimezone: true }),
   feedback: varchar(),
+  feedbackStatus: interviewFeedbackStatusEnum(),
+  structuredFeedback: jsonb().$type<AiInterviewFeedback>(),
+  overallScore: integer(),
+  communicationClarityScore: integer(),
+  confidenceScore: integer(),
+  responseQualityScore: integer(),
+  pacingScore: integer(),
+  engagementScore: integer(),
+  roleFitScore: integer(),
+  overallAssessmentScore: integer(),
+  emotionAnalysis: jsonb().$type<InterviewEmotionAnalysis>(),
   createdAt,
   updatedAt,
 })
 
-export const interviewRelations = relations(InterviewTable, ({ one }) => ({
-  jobInfo: one(JobInfoTable, {
-    fields: [InterviewTable.jobInfoId],
-    references: [JobInfoTable.id],
-  }),
-}))
+export const interviewRelations = relations(
+  InterviewTable,
+  ({ one, many }) => ({
+    jobInfo: one(JobInfoTable, {
+      fields: [InterviewTable.jobInfoId],
+      references: [JobInfoTable.id],
+    }),
+    messages: many(InterviewMessageTable),
+  })
+)
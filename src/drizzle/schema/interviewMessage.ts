@@ -0,0 +1,42 @@
+import {
+  jsonb,
+  pgEnum,
+  pgTable,
+  timestamp,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core"
+import { createdAt, id, updatedAt } from "../schemaHelpers"
+import { relations } from "drizzle-orm"
+import { InterviewTable } from "./interview"
+
+export const interviewMessageSpeakers = ["interviewer", "interviewee"] as const
+export type InterviewMessageSpeaker = (typeof interviewMessageSpeakers)[number]
+export const interviewMessageSpeakerEnum = pgEnum(
+  "interview_messages_speaker",
+  interviewMessageSpeakers
+)
+
+export const InterviewMessageTable = pgTable("interview_messages", {
+  id,
+  interviewId: uuid()
+    .references(() => InterviewTable.id, { onDelete: "cascade" })
+    .notNull(),
+  speaker: interviewMessageSpeakerEnum().notNull(),
+  text: varchar().notNull(),
+  emotionFeatures: jsonb().$type<Record<string, number>>(),
+  humeEventId: varchar().unique(),
+  sentAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+  createdAt,
+  updatedAt,
+})
+
+export const interviewMessageRelations = relations(
+  InterviewMessageTable,
+  ({ one }) => ({
+    interview: one(InterviewTable, {
+      fields: [InterviewMessageTable.interviewId],
+      references: [InterviewTable.id],
+    }),
+  })
+)
@@ -4,6 +4,8 @@ import { UserTable } from "./user"
 import { relations } from "drizzle-orm"
 import { QuestionTable } from "./question"
 import { InterviewTable } from "./interview"
+import { QuestionSessionTable } from "./questionSession"
+import { ResumeAnalysisTable } from "./resumeAnalysis"
 
 export const experienceLevels = ["junior", "mid-level", "senior"] as const
 export type ExperienceLevel = (typeof experienceLevels)[number]
@@ -32,4 +34,6 @@ export const jobInfoRelations = relations(JobInfoTable, ({ one, many }) => ({
   }),
   questions: many(QuestionTable),
   interviews: many(InterviewTable),
+  questionSessions: many(QuestionSessionTable),
+  resumeAnalyses: many(ResumeAnalysisTable),
 }))
@@ -1,7 +1,19 @@
-import { pgEnum, pgTable, uuid, varchar } from "drizzle-orm/pg-core"
+import {
+  AnyPgColumn,
+  jsonb,
+  pgEnum,
+  pgTable,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core"
 import { createdAt, id, updatedAt } from "../schemaHelpers"
 import { relations } from "drizzle-orm"
 import { JobInfoTable } from "./jobInfo"
+import { QuestionAttemptTable } from "./questionAttempt"
+import { QuestionHintTable } from "./questionHint"
+import { questionKindEnum } from "./questionKind"
+import { QuestionReviewTable } from "./questionReview"
+import type { AiCodingQuestion } from "@/services/ai/questionSchemas"
 
 export const questionDifficulties = ["easy", "medium", "hard"] as const
 export type QuestionDifficulty = (typeof questionDifficulties)[number]
@@ -10,20 +22,41 @@ export const questionDifficultyEnum = pgEnum(
   questionDifficulties
 )
 
+export const questionTypes = ["standard", "coding"] as const
+export type QuestionType = (typeof questionTypes)[number]
+export const questionTypeEnum = pgEnum("questions_question_type", questionTypes)
+
 export const QuestionTable = pgTable("questions", {
   id,
   jobInfoId: uuid()
     .references(() => JobInfoTable.id, { onDelete: "cascade" })
     .notNull(),
+  parentQuestionId: uuid().references((): AnyPgColumn => QuestionTable.id, {
+    onDelete: "set null",
+  }),
   text: varchar().notNull(),
   difficulty: questionDifficultyEnum().notNull(),
+  difficultyReason: varchar(),
+  topic: varchar(),
+  type: questionTypeEnum().notNull().default("standard"),
+  kind: questionKindEnum().notNull().default("technical"),
+  codingSpec: jsonb().$type<AiCodingQuestion>(),
   createdAt,
   updatedAt,
 })
 
-export const questionsRelations = relations(QuestionTable, ({ one }) => ({
+export const questionsRelations = relations(QuestionTable, ({ one, many }) => ({
   jobInfo: one(JobInfoTable, {
     fields: [QuestionTable.jobInfoId],
     references: [JobInfoTable.id],
   }),
+  parentQuestion: one(QuestionTable, {
+    fields: [QuestionTable.parentQuestionId],
+    references: [QuestionTable.id],
+    relationName: "followUps",
+  }),
+  followUps: many(QuestionTable, { relationName: "followUps" }),
+  attempts: many(QuestionAttemptTable),
+  hints: many(QuestionHintTable),
+  review: one(QuestionReviewTable),
 }))
@@ -0,0 +1,38 @@
+import { integer, jsonb, pgTable, uuid, varchar } from "drizzle-orm/pg-core"
+import { createdAt, id, updatedAt } from "../schemaHelpers"
+import { relations } from "drizzle-orm"
+import { QuestionTable } from "./question"
+import { QuestionSessionTable } from "./questionSession"
+import type { AiQuestionFeedback } from "@/services/ai/questionSchemas"
+
+export const QuestionAttemptTable = pgTable("question_attempts", {
+  id,
+  questionId: uuid()
+    .references(() => QuestionTable.id, { onDelete: "cascade" })
+    .notNull(),
+  answer: varchar().notNull(),
+  feedback: varchar().notNull(),
+  structuredFeedback: jsonb().$type<AiQuestionFeedback>(),
+  rating: integer(),
+  hintsUsed: integer().notNull().default(0),
+  sessionId: uuid().references(() => QuestionSessionTable.id, {
+    onDelete: "set null",
+  }),
+  timeSpentSeconds: integer(),
+  createdAt,
+  updatedAt,
+})
+
+export const questionAttemptsRelations = relations(
+  QuestionAttemptTable,
+  ({ one }) => ({
+    question: one(QuestionTable, {
+      fields: [QuestionAttemptTable.questionId],
+      references: [QuestionTable.id],
+    }),
+    session: one(QuestionSessionTable, {
+      fields: [QuestionAttemptTable.sessionId],
+      references: [QuestionSessionTable.id],
+    }),
+  })
+)
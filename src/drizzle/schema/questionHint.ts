@@ -0,0 +1,38 @@
+import { pgTable, uuid, varchar } from "drizzle-orm/pg-core"
+import { createdAt, id, updatedAt } from "../schemaHelpers"
+import { relations } from "drizzle-orm"
+import { QuestionTable } from "./question"
+import { QuestionAttemptTable } from "./questionAttempt"
+
+export const QuestionHintTable = pgTable("question_hints", {
+  id,
+  questionId: uuid()
+    .references(() => QuestionTable.id, { onDelete: "cascade" })
+    .notNull(),
+  // The try at the question the hint was given for, started by the client
+  // each time a question is shown. Missing for hints given before tries were
+  // tracked, which are never counted.
+  practiceId: uuid(),
+  // Set once the hint has been counted towards an attempt
+  attemptId: uuid().references(() => QuestionAttemptTable.id, {
+    onDelete: "cascade",
+  }),
+  // Null while the hint is being generated
+  text: varchar(),
+  createdAt,
+  updatedAt,
+})
+
+export const questionHintsRelations = relations(
+  QuestionHintTable,
+  ({ one }) => ({
+    question: one(QuestionTable, {
+      fields: [QuestionHintTable.questionId],
+      references: [QuestionTable.id],
+    }),
+    attempt: one(QuestionAttemptTable, {
+      fields: [QuestionHintTable.attemptId],
+      references: [QuestionAttemptTable.id],
+    }),
+  })
+)
@@ -0,0 +1,11 @@
+import { pgEnum } from "drizzle-orm/pg-core"
+
+// Kept out of question.ts so question sessions can use the enum without an
+// import cycle between the table modules
+export const questionKinds = [
+  "technical",
+  "behavioral",
+  "system-design",
+] as const
+export type QuestionKind = (typeof questionKinds)[number]
+export const questionKindEnum = pgEnum("questions_question_kind", questionKinds)
@@ -0,0 +1,29 @@
+import { integer, pgTable, real, timestamp, uuid } from "drizzle-orm/pg-core"
+import { createdAt, id, updatedAt } from "../schemaHelpers"
+import { relations } from "drizzle-orm"
+import { QuestionTable } from "./question"
+
+export const QuestionReviewTable = pgTable("question_reviews", {
+  id,
+  questionId: uuid()
+    .references(() => QuestionTable.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  easeFactor: real().notNull(),
+  intervalDays: integer().notNull(),
+  repetitions: integer().notNull(),
+  lastRating: integer().notNull(),
+  dueAt: timestamp({ withTimezone: true }).notNull(),
+  createdAt,
+  updatedAt,
+})
+
+export const questionReviewsRelations = relations(
+  QuestionReviewTable,
+  ({ one }) => ({
+    question: one(QuestionTable, {
+      fields: [QuestionReviewTable.questionId],
+      references: [QuestionTable.id],
+    }),
+  })
+)
@@ -0,0 +1,37 @@
+import {
+  integer,
+  jsonb,
+  pgTable,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core"
+import { createdAt, id, updatedAt } from "../schemaHelpers"
+import { relations } from "drizzle-orm"
+import { JobInfoTable } from "./jobInfo"
+import type { QuestionDifficulty } from "./question"
+import { questionKindEnum } from "./questionKind"
+import { QuestionAttemptTable } from "./questionAttempt"
+
+export const QuestionSessionTable = pgTable("question_sessions", {
+  id,
+  jobInfoId: uuid()
+    .references(() => JobInfoTable.id, { onDelete: "cascade" })
+    .notNull(),
+  difficulties: jsonb().$type<QuestionDifficulty[]>().notNull(),
+  kind: questionKindEnum().notNull().default("technical"),
+  timeLimitSeconds: integer().notNull(),
+  completedAt: timestamp({ withTimezone: true }),
+  createdAt,
+  updatedAt,
+})
+
+export const questionSessionsRelations = relations(
+  QuestionSessionTable,
+  ({ one, many }) => ({
+    jobInfo: one(JobInfoTable, {
+      fields: [QuestionSessionTable.jobInfoId],
+      references: [JobInfoTable.id],
+    }),
+    attempts: many(QuestionAttemptTable),
+  })
+)
@@ -0,0 +1,27 @@
+import { jsonb, pgTable, real, uuid, varchar } from "drizzle-orm/pg-core"
+import { createdAt, id, updatedAt } from "../schemaHelpers"
+import { relations } from "drizzle-orm"
+import { JobInfoTable } from "./jobInfo"
+import type { AiResumeAnalysis } from "@/services/ai/resumes/schemas"
+
+export const ResumeAnalysisTable = pgTable("resume_analyses", {
+  id,
+  jobInfoId: uuid()
+    .references(() => JobInfoTable.id, { onDelete: "cascade" })
+    .notNull(),
+  fileName: varchar().notNull(),
+  overallScore: real().notNull(),
+  analysis: jsonb().$type<AiResumeAnalysis>().notNull(),
+  createdAt,
+  updatedAt,
+})
+
+export const resumeAnalysisRelations = relations(
+  ResumeAnalysisTable,
+  ({ one }) => ({
+    jobInfo: one(JobInfoTable, {
+      fields: [ResumeAnalysisTable.jobInfoId],
+      references: [JobInfoTable.id],
+    }),
+  })
+)
@@ -0,0 +1,42 @@
+import { db } from "@/drizzle/db"
+import { InterviewMessageTable } from "@/drizzle/schema"
+import { revalidateInterviewMessageCache } from "./dbCache"
+
+export async function insertInterviewMessage(
+  message: typeof InterviewMessageTable.$inferInsert,
+  { jobInfoId }: { jobInfoId: string }
+) {
+  const [newMessage] = await db
+    .insert(InterviewMessageTable)
+    .values(message)
+    .returning({
+      id: InterviewMessageTable.id,
+      interviewId: InterviewMessageTable.interviewId,
+    })
+
+  revalidateInterviewMessageCache({ ...newMessage, jobInfoId })
+
+  return newMessage
+}
+
+export async function insertInterviewMessages(
+  messages: (typeof InterviewMessageTable.$inferInsert)[],
+  { jobInfoId }: { jobInfoId: string }
+) {
+  if (messages.length === 0) return []
+
+  const newMessages = await db
+    .insert(InterviewMessageTable)
+    .values(messages)
+    .onConflictDoNothing({ target: InterviewMessageTable.humeEventId })
+    .returning({
+      id: InterviewMessageTable.id,
+      interviewId: InterviewMessageTable.interviewId,
+    })
+
+  newMessages.forEach(message =>
+    revalidateInterviewMessageCache({ ...message, jobInfoId })
+  )
+
+  return newMessages
+}
@@ -0,0 +1,38 @@
+import {
+  getGlobalTag,
+  getIdTag,
+  getInterviewTag,
+  getJobInfoTag,
+} from "@/lib/dataCache"
+import { revalidateTag } from "next/cache"
+
+export function getInterviewMessageGlobalTag() {
+  return getGlobalTag("interviewMessages")
+}
+
+export function getInterviewMessageJobInfoTag(jobInfoId: string) {
+  return getJobInfoTag("interviewMessages", jobInfoId)
+}
+
+export function getInterviewMessageInterviewTag(interviewId: string) {
+  return getInterviewTag("interviewMessages", interviewId)
+}
+
+export function getInterviewMessageIdTag(id: string) {
+  return getIdTag("interviewMessages", id)
+}
+
+export function revalidateInterviewMessageCache({
+  id,
+  interviewId,
+  jobInfoId,
+}: {
+  id: string
+  interviewId: string
+  jobInfoId: string
+}) {
+  revalidateTag(getInterviewMessageGlobalTag())
+  revalidateTag(getInterviewMessageJobInfoTag(jobInfoId))
+  revalidateTag(getInterviewMessageInterviewTag(interviewId))
+  revalidateTag(getInterviewMessageIdTag(id))
+}
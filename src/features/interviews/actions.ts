@@ -5,14 +5,25 @@ import { cacheTag } from "next/dist/server/use-cache/cache-tag"
 import { getJobInfoIdTag } from "../jobInfos/dbCache"
 import { db } from "@/drizzle/db"
 import { and, eq } from "drizzle-orm"
-import { InterviewTable, JobInfoTable } from "@/drizzle/schema"
+import { InterviewMode, InterviewTable, JobInfoTable } from "@/drizzle/schema"
 import { insertInterview, updateInterview as updateInterviewDb } from "./db"
 import { getInterviewIdTag } from "./dbCache"
 import { canCreateInterview } from "./permissions"
 import { RATE_LIMIT_MESSAGE } from "@/lib/errorToast"
 import { env } from "@/data/env/server"
 import arcjet, { tokenBucket, request } from "@arcjet/next"
-import { generateAiInterviewFeedback } from "@/services/ai/interviews"
+import { getInterviewTranscript, syncInterviewTranscript } from "./transcript"
+import { InterviewSettings, interviewSettingsSchema } from "./schemas"
+import {
+  isInterviewFeedbackInProgress,
+  queueInterviewFeedback,
+} from "./feedback"
+import { isInterviewResumable } from "./resume"
+
+// The client syncs the duration every 10 seconds while an interview is
+// running, so a longer gap means the session was interrupted and the time
+// in between is not counted
+const MAX_UNSYNCED_SECONDS = 30
 
 const aj = arcjet({
   characteristics: ["userId"],
@@ -29,8 +40,12 @@ const aj = arcjet({
 
 export async function createInterview({
   jobInfoId,
+  mode = "voice",
+  settings: unsafeSettings,
 }: {
   jobInfoId: string
+  mode?: InterviewMode
+  settings: InterviewSettings
 }): Promise<{ error: true; message: string } | { error: false; id: string }> {
   const { userId } = await getCurrentUser()
   if (userId == null) {
@@ -40,6 +55,15 @@ export async function createInterview({
     }
   }
 
+  const { success, data: settings } =
+    interviewSettingsSchema.safeParse(unsafeSettings)
+  if (!success) {
+    return {
+      error: true,
+      message: "Invalid interview settings",
+    }
+  }
+
   // Removed plan limit check
 
   const decision = await aj.protect(await request(), {
@@ -62,7 +86,11 @@ export async function createInterview({
     }
   }
 
-  const interview = await insertInterview({ jobInfoId, duration: "00:00:00" })
+  const interview = await insertInterview({
+    jobInfoId,
+    mode,
+    ...settings,
+  })
 
   return { error: false, id: interview.id }
 }
@@ -71,7 +99,7 @@ export async function updateInterview(
   id: string,
   data: {
     humeChatId?: string
-    duration?: string
+    humeChatGroupId?: string
   }
 ) {
   const { userId } = await getCurrentUser()
@@ -95,6 +123,100 @@ export async function updateInterview(
   return { error: false }
 }
 
+export async function syncInterviewDuration(id: string) {
+  const { userId } = await getCurrentUser()
+  if (userId == null) {
+    return {
+      error: true,
+      message: "You don't have permission to do this",
+    }
+  }
+
+  const interview = await getInterview(id, userId)
+  if (interview == null) {
+    return {
+      error: true,
+      message: "You don't have permission to do this",
+    }
+  }
+  if (interview.endedAt != null) return { error: false }
+
+  await updateInterviewDb(id, getSyncedDuration(interview, new Date()))
+
+  return { error: false }
+}
+
+export async function endInterview(id: string) {
+  const { userId, user } = await getCurrentUser({ allData: true })
+  if (userId == null || user == null) {
+    return {
+      error: true,
+      message: "You don't have permission to do this",
+    }
+  }
+
+  const interview = await getInterview(id, userId)
+  if (interview == null) {
+    return {
+      error: true,
+      message: "You don't have permission to do this",
+    }
+  }
+
+  if (interview.endedAt != null) return { error: false }
+
+  const endedAt = new Date()
+  const duration = getSyncedDuration(interview, endedAt)
+  await updateInterviewDb(id, { endedAt, ...duration })
+  // The transcript is fetched again when the interview is viewed, so a
+  // failure here should not keep the interview from ending
+  const transcriptSyncedAt = await syncInterviewTranscript(interview).catch(
+    () => null
+  )
+
+  if (
+    await hasInterviewTranscript({
+      ...interview,
+      ...duration,
+      transcriptSyncedAt: transcriptSyncedAt ?? interview.transcriptSyncedAt,
+    })
+  ) {
+    await queueInterviewFeedback(interview.id, user.name)
+  }
+
+  return { error: false }
+}
+
+export async function resumeInterview(id: string) {
+  const { userId } = await getCurrentUser()
+  if (userId == null) {
+    return {
+      error: true,
+      message: "You don't have permission to do this",
+    }
+  }
+
+  const interview = await getInterview(id, userId)
+  if (interview == null) {
+    return {
+      error: true,
+      message: "You don't have permission to do this",
+    }
+  }
+
+  if (!isInterviewResumable(interview)) {
+    return {
+      error: true,
+      message: "This interview can no longer be resumed",
+    }
+  }
+
+  // The time spent disconnected does not count towards the duration
+  await updateInterviewDb(id, { durationSyncedAt: new Date() })
+
+  return { error: false }
+}
+
 export async function generateInterviewFeedback(interviewId: string) {
   const { userId, user } = await getCurrentUser({ allData: true })
   if (userId == null || user == null) {
@@ -112,27 +234,21 @@ export async function generateInterviewFeedback(interviewId: string) {
     }
   }
 
-  if (interview.humeChatId == null) {
+  if (isInterviewFeedbackInProgress(interview)) {
     return {
       error: true,
-      message: "Interview has not been completed yet",
+      message: "Feedback is already being generated",
     }
   }
 
-  const feedback = await generateAiInterviewFeedback({
-    humeChatId: interview.humeChatId,
-    jobInfo: interview.jobInfo,
-    userName: user.name,
-  })
-
-  if (feedback == null) {
+  if (!(await hasInterviewTranscript(interview))) {
     return {
       error: true,
-      message: "Failed to generate feedback",
+      message: "Interview has not been completed yet",
     }
   }
 
-  await updateInterviewDb(interviewId, { feedback })
+  await queueInterviewFeedback(interview.id, user.name)
 
   return { error: false }
 }
@@ -172,3 +288,32 @@ async function getInterview(id: string, userId: string) {
 
   return interview
 }
+
+function getSyncedDuration(
+  interview: Pick<
+    typeof InterviewTable.$inferSelect,
+    "durationSeconds" | "durationSyncedAt"
+  >,
+  now: Date
+) {
+  const syncedAt = interview.durationSyncedAt.getTime()
+  const elapsedSeconds = Math.floor((now.getTime() - syncedAt) / 1000)
+  if (elapsedSeconds > MAX_UNSYNCED_SECONDS) {
+    return { durationSeconds: interview.durationSeconds, durationSyncedAt: now }
+  }
+
+  const countedSeconds = Math.max(0, elapsedSeconds)
+  return {
+    durationSeconds: interview.durationSeconds + countedSeconds,
+    // Only whole seconds are counted, so the remainder is carried over to the
+    // next sync instead of being lost to rounding
+    durationSyncedAt: new Date(syncedAt + countedSeconds * 1000),
+  }
+}
+
+async function hasInterviewTranscript(
+  interview: Parameters<typeof getInterviewTranscript>[0]
+) {
+  const transcript = await getInterviewTranscript(interview).catch(() => null)
+  return transcript != null && transcript.length > 0
+}
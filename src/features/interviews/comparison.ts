@@ -0,0 +1,199 @@
+import { InterviewTable } from "@/drizzle/schema"
+import { interviewFeedbackCategories } from "@/services/ai/interviewSchemas"
+import z from "zod"
+import { formatInterviewFeedbackCategory } from "./formatters"
+
+export const interviewComparisonSchema = z.object({
+  a: z.string().optional().catch(undefined),
+  b: z.string().optional().catch(undefined),
+})
+export type InterviewComparisonSelection = z.infer<
+  typeof interviewComparisonSchema
+>
+
+type ComparableInterview = Pick<
+  typeof InterviewTable.$inferSelect,
+  | "mode"
+  | "overallScore"
+  | "structuredFeedback"
+  | "emotionAnalysis"
+  | "pacingMetrics"
+>
+
+export type InterviewComparisonMetric = {
+  label: string
+  before: number | null
+  after: number | null
+  unit: "score" | "percent" | "seconds"
+  // Whether a higher or lower value is an improvement, null when neither is
+  better: "higher" | "lower" | null
+}
+
+export type InterviewComparisonSection = {
+  title: string
+  // Set when the metrics of the two interviews were measured differently, in
+  // which case the difference between them means nothing
+  notComparableReason: string | null
+  metrics: InterviewComparisonMetric[]
+}
+
+/**
+ * Lines up the metrics of two interviews so they can be compared. The
+ * interviews are expected in chronological order so that the difference
+ * between them shows improvement or regression.
+ */
+export function getInterviewComparisonSections(
+  before: ComparableInterview,
+  after: ComparableInterview
+): InterviewComparisonSection[] {
+  return [
+    {
+      title: "Scores",
+      notComparableReason: null,
+      metrics: [
+        {
+          label: "Overall",
+          before: before.overallScore,
+          after: after.overallScore,
+          unit: "score",
+          better: "higher",
+        },
+        ...interviewFeedbackCategories.map(category => ({
+          label: formatInterviewFeedbackCategory(category),
+          before: before.structuredFeedback?.categories[category].score ?? null,
+          after: after.structuredFeedback?.categories[category].score ?? null,
+          unit: "score" as const,
+          better: "higher" as const,
+        })),
+      ],
+    },
+    {
+      title: "Emotions",
+      notComparableReason: getEmotionsNotComparableReason(before, after),
+      metrics: [
+        {
+          label: "Confidence",
+          before: before.emotionAnalysis?.overallConfidence ?? null,
+          after: after.emotionAnalysis?.overallConfidence ?? null,
+          unit: "percent",
+          better: "higher",
+        },
+        {
+          label: "Calmness",
+          before: before.emotionAnalysis?.averageCalmness ?? null,
+          after: after.emotionAnalysis?.averageCalmness ?? null,
+          unit: "percent",
+          better: "higher",
+        },
+        {
+          label: "Stability",
+          before: before.emotionAnalysis?.emotionalStability ?? null,
+          after: after.emotionAnalysis?.emotionalStability ?? null,
+          unit: "percent",
+          better: "higher",
+        },
+      ],
+    },
+    {
+      title: "Pacing",
+      notComparableReason: getPacingNotComparableReason(before, after),
+      metrics: [
+        {
+          label: "Average Response Time",
+          before: before.pacingMetrics?.averageResponseLatencySeconds ?? null,
+          after: after.pacingMetrics?.averageResponseLatencySeconds ?? null,
+          unit: "seconds",
+          better: "lower",
+        },
+        {
+          label: "Your Talk Time",
+          before: before.pacingMetrics?.talkTimeRatio ?? null,
+          after: after.pacingMetrics?.talkTimeRatio ?? null,
+          unit: "percent",
+          better: null,
+        },
+        {
+          label: "Longest Pause",
+          before: before.pacingMetrics?.longestPauseSeconds ?? null,
+          after: after.pacingMetrics?.longestPauseSeconds ?? null,
+          unit: "seconds",
+          better: "lower",
+        },
+      ],
+    },
+  ]
+}
+
+// Emotions measured from the voice (prosody) of a voice interview are on a
+// different scale than the ones estimated from the text of the answers, which
+// voice interviews fall back to when Hume reported no emotions
+function getEmotionsNotComparableReason(
+  before: ComparableInterview,
+  after: ComparableInterview
+) {
+  if (before.emotionAnalysis == null || after.emotionAnalysis == null) {
+    return null
+  }
+
+  if (before.mode !== after.mode) {
+    return "Voice and text interviews measure emotions differently, so they can't be compared"
+  }
+  if (before.emotionAnalysis.source !== after.emotionAnalysis.source) {
+    return "Emotions were measured from your voice in one interview and estimated from your answers in the other, so they can't be compared"
+  }
+
+  return null
+}
+
+// Text interview response times include typing, so they aren't on the same
+// scale as spoken responses
+function getPacingNotComparableReason(
+  before: ComparableInterview,
+  after: ComparableInterview
+) {
+  if (before.pacingMetrics == null || after.pacingMetrics == null) return null
+
+  if (before.mode !== after.mode) {
+    return "Voice and text interviews are paced differently, so they can't be compared"
+  }
+
+  return null
+}
+
+export function getInterviewComparisonChange({
+  before,
+  after,
+  better,
+}: InterviewComparisonMetric) {
+  if (before == null || after == null) return null
+
+  const delta = after - before
+  if (delta === 0 || better == null) return { delta, trend: "neutral" as const }
+
+  const improved = better === "higher" ? delta > 0 : delta < 0
+  return {
+    delta,
+    trend: improved ? ("improved" as const) : ("regressed" as const),
+  }
+}
+
+/**
+ * Picks the quotes the feedback used as evidence, taking the first one from
+ * each category so the quotes cover different parts of the interview
+ */
+export function getInterviewKeyQuotes(
+  interview: Pick<ComparableInterview, "structuredFeedback">,
+  limit = 5
+) {
+  const { structuredFeedback } = interview
+  if (structuredFeedback == null) return []
+
+  return interviewFeedbackCategories
+    .flatMap(category => {
+      const quote = structuredFeedback.categories[category].evidence[0]
+      return quote == null
+        ? []
+        : [{ category: formatInterviewFeedbackCategory(category), quote }]
+    })
+    .slice(0, limit)
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { EmotionalState } from "../emotionAnalysis"
+import { formatEmotionalState } from "../formatters"
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = 16
+
+const SERIES_COLORS = [
+  { line: "stroke-chart-1", point: "fill-chart-1", legend: "bg-chart-1" },
+  { line: "stroke-chart-4", point: "fill-chart-4", legend: "bg-chart-4" },
+  { line: "stroke-chart-3", point: "fill-chart-3", legend: "bg-chart-3" },
+  { line: "stroke-chart-5", point: "fill-chart-5", legend: "bg-chart-5" },
+]
+
+export type EmotionTimelinePoint = {
+  targetId: string
+  text: string
+  emotionalState: EmotionalState
+  emotions: Record<string, number>
+}
+
+export function EmotionTimeline({
+  points,
+  emotions,
+}: {
+  points: EmotionTimelinePoint[]
+  emotions: string[]
+}) {
+  const series = ["confidence", "calmness", ...emotions]
+
+  function getX(index: number) {
+    if (points.length === 1) return WIDTH / 2
+    return PADDING + (index / (points.length - 1)) * (WIDTH - PADDING * 2)
+  }
+
+  function getY(value: number) {
+    return HEIGHT - PADDING - value * (HEIGHT - PADDING * 2)
+  }
+
+  function scrollToMessage(targetId: string) {
+    document
+      .getElementById(targetId)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Emotion Timeline</CardTitle>
+        <CardDescription>
+          How your emotions changed from answer to answer. Click a point to jump
+          to the answer.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto overflow-visible"
+        >
+          {[0, 0.5, 1].map(value => (
+            <line
+              key={value}
+              x1={PADDING}
+              x2={WIDTH - PADDING}
+              y1={getY(value)}
+              y2={getY(value)}
+              className="stroke-border"
+              strokeDasharray="4 4"
+            />
+          ))}
+          {series.map((emotion, seriesIndex) => {
+            const colors = SERIES_COLORS[seriesIndex % SERIES_COLORS.length]
+
+            return (
+              <g key={emotion}>
+                <polyline
+                  className={cn("fill-none", colors.line)}
+                  strokeWidth={seriesIndex < 2 ? 2.5 : 1.5}
+                  strokeDasharray={seriesIndex < 2 ? undefined : "6 4"}
+                  points={points
+                    .map(
+                      (point, index) =>
+                        `${getX(index)},${getY(point.emotions[emotion] ?? 0)}`
+                    )
+                    .join(" ")}
+                />
+                {points.map((point, index) => (
+                  <circle
+                    key={index}
+                    cx={getX(index)}
+                    cy={getY(point.emotions[emotion] ?? 0)}
+                    r={5}
+                    className={cn(
+                      "cursor-pointer stroke-background",
+                      colors.point
+                    )}
+                    strokeWidth={2}
+                    onClick={() => scrollToMessage(point.targetId)}
+                  >
+                    <title>{getPointTitle(point, index)}</title>
+                  </circle>
+                ))}
+              </g>
+            )
+          })}
+        </svg>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+          {series.map((emotion, seriesIndex) => (
+            <div key={emotion} className="flex items-center gap-2">
+              <span
+                className={cn(
+                  "size-2.5 rounded-full",
+                  SERIES_COLORS[seriesIndex % SERIES_COLORS.length].legend
+                )}
+              />
+              <span className="capitalize">{emotion}</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function getPointTitle(point: EmotionTimelinePoint, index: number) {
+  const topEmotions = Object.entries(point.emotions)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(
+      ([emotion, intensity]) => `${emotion}: ${Math.round(intensity * 100)}%`
+    )
+
+  return [
+    `Answer ${index + 1} (${formatEmotionalState(point.emotionalState)})`,
+    point.text,
+    ...topEmotions,
+  ].join("\n")
+}
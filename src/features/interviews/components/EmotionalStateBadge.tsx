@@ -0,0 +1,19 @@
+import { Badge } from "@/components/ui/badge"
+import { EmotionalState } from "../emotionAnalysis"
+import { formatEmotionalState } from "../formatters"
+
+export function EmotionalStateBadge({ state }: { state: EmotionalState }) {
+  switch (state) {
+    case "confident":
+      return <Badge>{formatEmotionalState(state)}</Badge>
+    case "calm":
+    case "engaged":
+      return <Badge variant="secondary">{formatEmotionalState(state)}</Badge>
+    case "nervous":
+      return <Badge variant="warning">{formatEmotionalState(state)}</Badge>
+    case "uncertain":
+      return <Badge variant="outline">{formatEmotionalState(state)}</Badge>
+    default:
+      throw new Error(`Unknown emotional state: ${state satisfies never}`)
+  }
+}
@@ -0,0 +1,171 @@
+import { Badge } from "@/components/ui/badge"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { CheckIcon, XIcon } from "lucide-react"
+import {
+  AnswerLengthBucket,
+  getAnswerLengthBucketLabel,
+  InterviewDeliveryAnalysis,
+  StarComponent,
+} from "../deliveryAnalysis"
+
+const ANSWER_LENGTH_BUCKETS: AnswerLengthBucket[] = ["short", "medium", "long"]
+const STAR_COMPONENTS: { component: StarComponent; label: string }[] = [
+  { component: "situation", label: "Situation" },
+  { component: "task", label: "Task" },
+  { component: "action", label: "Action" },
+  { component: "result", label: "Result" },
+]
+
+export function InterviewDelivery({
+  analysis,
+}: {
+  analysis: InterviewDeliveryAnalysis
+}) {
+  const { fillerWords, hedgingPhrases, answerLengths, starAnswers } = analysis
+  const answerCount = ANSWER_LENGTH_BUCKETS.reduce(
+    (total, bucket) => total + answerLengths.buckets[bucket],
+    0
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Delivery</CardTitle>
+        <CardDescription>
+          Filler words, hedging and structure of your answers
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Metric
+            label={
+              fillerWords.isPerMinuteEstimated
+                ? "Filler Words per Minute (Estimated)"
+                : "Filler Words per Minute"
+            }
+            value={fillerWords.perMinute?.toString() ?? "-"}
+          />
+          <Metric
+            label="Hedging Phrases"
+            value={hedgingPhrases.total.toString()}
+          />
+          <Metric
+            label="Average Answer Length"
+            value={
+              answerLengths.averageWords == null
+                ? "-"
+                : `${answerLengths.averageWords} words`
+            }
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <PhraseCounts title="Filler Words" counts={fillerWords.counts} />
+          <PhraseCounts
+            title="Hedging Phrases"
+            counts={hedgingPhrases.counts}
+          />
+        </div>
+
+        {answerCount > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold">Answer Length</h3>
+            <p className="text-sm text-muted-foreground">
+              Median of {answerLengths.medianWords} words per answer
+            </p>
+            {ANSWER_LENGTH_BUCKETS.map(bucket => (
+              <div key={bucket} className="flex items-center gap-4 text-sm">
+                <span className="w-16">
+                  {getAnswerLengthBucketLabel(bucket)}
+                </span>
+                <div className="h-2 flex-grow rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-primary rounded-full"
+                    style={{
+                      width: `${(answerLengths.buckets[bucket] / answerCount) * 100}%`,
+                    }}
+                  />
+                </div>
+                <span className="w-8 text-right tabular-nums">
+                  {answerLengths.buckets[bucket]}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {starAnswers.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold">STAR Structure</h3>
+            <p className="text-sm text-muted-foreground">
+              Whether your answers to behavioral questions covered the
+              Situation, Task, Action and Result
+            </p>
+            <ul className="space-y-3">
+              {starAnswers.map(({ question, components }, index) => (
+                <li key={index} className="space-y-1">
+                  <p className="text-sm line-clamp-2">{question}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {STAR_COMPONENTS.map(({ component, label }) => (
+                      <Badge
+                        key={component}
+                        variant={components[component] ? "default" : "outline"}
+                        className={cn(
+                          !components[component] && "text-muted-foreground"
+                        )}
+                      >
+                        {components[component] ? <CheckIcon /> : <XIcon />}
+                        {label}
+                      </Badge>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function PhraseCounts({
+  title,
+  counts,
+}: {
+  title: string
+  counts: { phrase: string; count: number }[]
+}) {
+  return (
+    <div className="space-y-2">
+      <h3 className="font-semibold">{title}</h3>
+      {counts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None detected</p>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {counts.map(({ phrase, count }) => (
+            <Badge key={phrase} variant="secondary">
+              &ldquo;{phrase}&rdquo; &times; {count}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border p-4 space-y-1">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-semibold tabular-nums">{value}</div>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+import { MarkdownRenderer } from "@/components/MarkdownRenderer"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { formatEmotionAnalysisReport } from "@/services/ai/emotion-analysis"
+import { InterviewEmotionAnalysis } from "../emotionAnalysis"
+
+export function InterviewEmotionSummary({
+  analysis,
+}: {
+  analysis: InterviewEmotionAnalysis
+}) {
+  return (
+    <Card>
+      <CardHeader className="flex items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Emotional Delivery</CardTitle>
+          <CardDescription>
+            {analysis.source === "voice"
+              ? "Measured from your voice during the interview"
+              : "Estimated from the wording of your answers"}
+          </CardDescription>
+        </div>
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm">
+              Full Report
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="md:max-w-3xl lg:max-w-4xl max-h-[calc(100%-2rem)] overflow-y-auto flex flex-col">
+            <DialogTitle>Emotion Analysis</DialogTitle>
+            <MarkdownRenderer>
+              {formatEmotionAnalysisReport(analysis)}
+            </MarkdownRenderer>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Metric label="Confidence" value={analysis.overallConfidence} />
+          <Metric label="Calmness" value={analysis.averageCalmness} />
+          <Metric label="Stability" value={analysis.emotionalStability} />
+        </div>
+        {analysis.insights.length > 0 && (
+          <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+            {analysis.insights.map((insight, index) => (
+              <li key={index}>{insight}</li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function Metric({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="rounded-lg border p-4 space-y-1">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-semibold tabular-nums">
+        {Math.round(value * 100)}%
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  DownloadIcon,
+  FileJsonIcon,
+  FileTextIcon,
+  FileTypeIcon,
+} from "lucide-react"
+import type { InterviewExportFormat } from "../export"
+
+export function InterviewExportMenu({ interviewId }: { interviewId: string }) {
+  const getExportUrl = (format: InterviewExportFormat) =>
+    `/api/interviews/${interviewId}/export?format=${format}`
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <DownloadIcon />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem asChild>
+          <a href={getExportUrl("markdown")} download>
+            <FileTextIcon />
+            Markdown
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={getExportUrl("pdf")} download>
+            <FileTypeIcon />
+            PDF
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={getExportUrl("json")} download>
+            <FileJsonIcon />
+            JSON
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,20 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { useEffect } from "react"
+
+const REFRESH_INTERVAL_MS = 5000
+
+// Feedback is generated in the background, so keep reloading the server
+// data until it is done
+export function InterviewFeedbackRefresher() {
+  const router = useRouter()
+
+  useEffect(() => {
+    const intervalId = setInterval(() => router.refresh(), REFRESH_INTERVAL_MS)
+
+    return () => clearInterval(intervalId)
+  }, [router])
+
+  return null
+}
@@ -0,0 +1,31 @@
+import { Badge } from "@/components/ui/badge"
+import { InterviewFeedbackStatus } from "@/drizzle/schema"
+import { Loader2Icon } from "lucide-react"
+import { formatInterviewFeedbackStatus } from "../formatters"
+
+export function InterviewFeedbackStatusBadge({
+  status,
+}: {
+  status: InterviewFeedbackStatus
+}) {
+  switch (status) {
+    case "pending":
+    case "processing":
+      return (
+        <Badge variant="secondary">
+          <Loader2Icon className="animate-spin" />
+          {formatInterviewFeedbackStatus(status)}
+        </Badge>
+      )
+    case "completed":
+      return <Badge>{formatInterviewFeedbackStatus(status)}</Badge>
+    case "failed":
+      return (
+        <Badge variant="destructive">
+          {formatInterviewFeedbackStatus(status)}
+        </Badge>
+      )
+    default:
+      throw new Error(`Unknown feedback status: ${status satisfies never}`)
+  }
+}
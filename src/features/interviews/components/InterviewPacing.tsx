@@ -0,0 +1,77 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { InterviewPacingMetrics } from "../pacingMetrics"
+
+export function InterviewPacing({
+  metrics,
+}: {
+  metrics: InterviewPacingMetrics
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pacing</CardTitle>
+        <CardDescription>
+          Measured from the timing of the messages in the interview
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Metric
+            label="Average Response Time"
+            value={formatSeconds(metrics.averageResponseLatencySeconds)}
+          />
+          <Metric
+            label="Your Talk Time"
+            value={
+              metrics.talkTimeRatio == null
+                ? "-"
+                : `${Math.round(metrics.talkTimeRatio * 100)}%`
+            }
+          />
+          <Metric
+            label="Longest Pause"
+            value={formatSeconds(metrics.longestPauseSeconds)}
+          />
+        </div>
+        {metrics.responseLatencies.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold">Response Time per Question</h3>
+            <ul className="text-sm space-y-1">
+              {metrics.responseLatencies.map(
+                ({ question, latencySeconds }, index) => (
+                  <li key={index} className="flex gap-4 justify-between">
+                    <span className="text-muted-foreground line-clamp-1">
+                      {question}
+                    </span>
+                    <span className="tabular-nums shrink-0">
+                      {formatSeconds(latencySeconds)}
+                    </span>
+                  </li>
+                )
+              )}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border p-4 space-y-1">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-semibold tabular-nums">{value}</div>
+    </div>
+  )
+}
+
+function formatSeconds(seconds: number | null) {
+  return seconds == null ? "-" : `${seconds}s`
+}
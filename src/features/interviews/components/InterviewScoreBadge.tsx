@@ -0,0 +1,9 @@
+import { Badge } from "@/components/ui/badge"
+
+export function InterviewScoreBadge({ score }: { score: number | null }) {
+  if (score == null) return <Badge variant="outline">No Feedback</Badge>
+
+  if (score >= 8) return <Badge>{score}/10</Badge>
+  if (score >= 5) return <Badge variant="warning">{score}/10</Badge>
+  return <Badge variant="destructive">{score}/10</Badge>
+}
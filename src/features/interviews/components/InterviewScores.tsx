@@ -0,0 +1,52 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  AiInterviewFeedback,
+  interviewFeedbackCategories,
+} from "@/services/ai/interviewSchemas"
+import { formatInterviewFeedbackCategory } from "../formatters"
+import { InterviewScoreBadge } from "./InterviewScoreBadge"
+
+export function InterviewScores({
+  feedback,
+}: {
+  feedback: AiInterviewFeedback
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Overall Score <InterviewScoreBadge score={feedback.overallScore} />
+        </CardTitle>
+        <CardDescription>{feedback.summary}</CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+        {interviewFeedbackCategories.map(category => {
+          const { score } = feedback.categories[category]
+
+          return (
+            <div key={category} className="space-y-1">
+              <div className="flex justify-between gap-4">
+                <span>{formatInterviewFeedbackCategory(category)}</span>
+                <span className="tabular-nums text-muted-foreground">
+                  {score}/10
+                </span>
+              </div>
+              <div className="h-2 rounded bg-muted overflow-hidden">
+                <div
+                  className="h-full bg-primary"
+                  style={{ width: `${score * 10}%` }}
+                />
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  InterviewerPersona,
+  interviewerPersonas,
+  InterviewType,
+  interviewTypes,
+} from "@/drizzle/schema"
+import { formatInterviewerPersona, formatInterviewType } from "../formatters"
+import { InterviewSettings, interviewTargetDurations } from "../schemas"
+
+export function InterviewSettingsFields({
+  settings,
+  onChange,
+  disabled,
+}: {
+  settings: InterviewSettings
+  onChange: (settings: InterviewSettings) => void
+  disabled?: boolean
+}) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 w-full max-w-2xl">
+      <div className="space-y-2">
+        <Label htmlFor="interview-type">Interview Type</Label>
+        <Select
+          value={settings.type}
+          onValueChange={value =>
+            onChange({ ...settings, type: value as InterviewType })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id="interview-type" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {interviewTypes.map(type => (
+              <SelectItem key={type} value={type}>
+                {formatInterviewType(type)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="interviewer-persona">Interviewer</Label>
+        <Select
+          value={settings.persona}
+          onValueChange={value =>
+            onChange({ ...settings, persona: value as InterviewerPersona })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id="interviewer-persona" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {interviewerPersonas.map(persona => (
+              <SelectItem key={persona} value={persona}>
+                {formatInterviewerPersona(persona)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="interview-length">Length</Label>
+        <Select
+          value={settings.targetDurationMinutes.toString()}
+          onValueChange={value =>
+            onChange({ ...settings, targetDurationMinutes: Number(value) })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id="interview-length" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {interviewTargetDurations.map(minutes => (
+              <SelectItem key={minutes} value={minutes.toString()}>
+                {minutes} minutes
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { AlertTriangleIcon, Loader2Icon, RotateCcwIcon } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useTransition } from "react"
+
+export function InterviewTranscriptError() {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  return (
+    <div className="flex flex-col items-center gap-4 rounded-lg border p-6 text-center">
+      <AlertTriangleIcon className="size-8 text-destructive" />
+      <div className="space-y-1">
+        <h2 className="text-lg font-semibold">
+          The transcript could not be loaded
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          We could not reach Hume to load this interview. This is usually
+          temporary, so try again in a moment.
+        </p>
+      </div>
+      <Button
+        variant="outline"
+        disabled={isPending}
+        onClick={() => startTransition(() => router.refresh())}
+      >
+        {isPending ? (
+          <Loader2Icon className="animate-spin" />
+        ) : (
+          <RotateCcwIcon />
+        )}
+        Try Again
+      </Button>
+    </div>
+  )
+}
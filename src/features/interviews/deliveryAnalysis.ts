@@ -0,0 +1,257 @@
+import { InterviewMode } from "@/drizzle/schema"
+import { getWordCount, SPOKEN_WORDS_PER_SECOND } from "./pacingMetrics"
+import { InterviewTranscriptMessage } from "./transcript"
+
+const FILLER_WORDS = [
+  "um",
+  "uh",
+  "uhm",
+  "erm",
+  "er",
+  "ah",
+  "hmm",
+  "you know",
+  "i mean",
+  "basically",
+  "actually",
+  "literally",
+]
+
+const HEDGING_PHRASES = [
+  "i think",
+  "i guess",
+  "i believe",
+  "i suppose",
+  "i'm not sure",
+  "i am not sure",
+  "maybe",
+  "perhaps",
+  "probably",
+  "possibly",
+  "sort of",
+  "kind of",
+  "might",
+  "could be",
+  "hopefully",
+]
+
+// Phrases interviewers use to ask for a specific past experience, which is
+// what the STAR (Situation, Task, Action, Result) structure is meant for
+const BEHAVIORAL_QUESTION_PATTERNS = [
+  /\btell me about a time\b/i,
+  /\bdescribe a (time|situation)\b/i,
+  /\bgive (me )?an example\b/i,
+  /\bwalk me through a (time|situation)\b/i,
+  /\bhave you ever\b/i,
+  /\bshare an experience\b/i,
+  /\bcan you recall\b/i,
+]
+
+const STAR_PATTERNS = {
+  situation: [
+    /\b(when I was|at my (previous|last|current)|in my (previous|last) (role|job)|there was a|we had a|the situation)\b/i,
+    /\b(at|while working at|during my time at) [A-Z]/,
+  ],
+  task: [
+    /\b(my (task|goal|job|role) was|I was (responsible|asked|tasked)|I needed to|I had to|we needed to|the goal was|the challenge was)\b/i,
+  ],
+  action: [
+    /\bI (decided|started|created|built|designed|implemented|led|organized|reached out|set up|proposed|wrote|worked|talked|spoke|introduced|analyzed|prioritized)\b/i,
+    /\b(so I|then I|first I)\b/i,
+  ],
+  result: [
+    /\b(as a result|in the end|ended up|the outcome|resulted in|which led to|we (managed|were able) to|I learned)\b/i,
+    /\b(improved|reduced|increased|saved|cut|grew|delivered|launched)\b.*\b(\d+|percent|%)/i,
+  ],
+}
+
+const ANSWER_LENGTH_BUCKETS = {
+  short: { label: "Short", maxWords: 50 },
+  medium: { label: "Medium", maxWords: 200 },
+  long: { label: "Long", maxWords: Infinity },
+}
+
+export type StarComponent = keyof typeof STAR_PATTERNS
+export type AnswerLengthBucket = keyof typeof ANSWER_LENGTH_BUCKETS
+
+export type InterviewDeliveryAnalysis = {
+  fillerWords: {
+    total: number
+    perMinute: number | null
+    // Whether the speaking time was estimated from the number of words
+    // instead of measured from the message timestamps
+    isPerMinuteEstimated: boolean
+    counts: { phrase: string; count: number }[]
+  }
+  hedgingPhrases: {
+    total: number
+    counts: { phrase: string; count: number }[]
+  }
+  answerLengths: {
+    averageWords: number | null
+    medianWords: number | null
+    buckets: Record<AnswerLengthBucket, number>
+  }
+  starAnswers: {
+    question: string
+    components: Record<StarComponent, boolean>
+  }[]
+}
+
+/**
+ * Analyzes how the interviewee's answers were delivered using keyword and
+ * pattern matching only, so the results are the same every time. Consecutive
+ * interviewee messages are treated as a single answer to the question before
+ * them.
+ */
+export function analyzeInterviewDelivery(
+  transcript: InterviewTranscriptMessage[],
+  mode: InterviewMode
+): InterviewDeliveryAnalysis {
+  const answers = getAnswers(transcript)
+  const answerText = answers.map(({ answer }) => answer).join(" ")
+  const wordCounts = answers.map(({ answer }) => getWordCount(answer))
+  const totalWords = sum(wordCounts)
+  const fillerCounts = countPhrases(answerText, FILLER_WORDS)
+  const hedgingCounts = countPhrases(answerText, HEDGING_PHRASES)
+  const fillerTotal = sum(fillerCounts.map(({ count }) => count))
+  const measuredSpeakingSeconds = getMeasuredSpeakingSeconds(transcript, mode)
+  const speakingSeconds =
+    measuredSpeakingSeconds ?? totalWords / SPOKEN_WORDS_PER_SECOND
+
+  return {
+    fillerWords: {
+      total: fillerTotal,
+      perMinute:
+        totalWords === 0 || speakingSeconds === 0
+          ? null
+          : round(fillerTotal / (speakingSeconds / 60)),
+      isPerMinuteEstimated: measuredSpeakingSeconds == null,
+      counts: fillerCounts,
+    },
+    hedgingPhrases: {
+      total: sum(hedgingCounts.map(({ count }) => count)),
+      counts: hedgingCounts,
+    },
+    answerLengths: {
+      averageWords:
+        wordCounts.length === 0
+          ? null
+          : Math.round(totalWords / wordCounts.length),
+      medianWords: getMedian(wordCounts),
+      buckets: {
+        short: wordCounts.filter(count => getLengthBucket(count) === "short")
+          .length,
+        medium: wordCounts.filter(count => getLengthBucket(count) === "medium")
+          .length,
+        long: wordCounts.filter(count => getLengthBucket(count) === "long")
+          .length,
+      },
+    },
+    starAnswers: answers
+      .filter(({ question }) =>
+        BEHAVIORAL_QUESTION_PATTERNS.some(pattern => pattern.test(question))
+      )
+      .map(({ question, answer }) => ({
+        question,
+        components: {
+          situation: matchesAny(answer, STAR_PATTERNS.situation),
+          task: matchesAny(answer, STAR_PATTERNS.task),
+          action: matchesAny(answer, STAR_PATTERNS.action),
+          result: matchesAny(answer, STAR_PATTERNS.result),
+        },
+      })),
+  }
+}
+
+export function getAnswerLengthBucketLabel(bucket: AnswerLengthBucket) {
+  return ANSWER_LENGTH_BUCKETS[bucket].label
+}
+
+function getAnswers(transcript: InterviewTranscriptMessage[]) {
+  return transcript.reduce(
+    (answers, message, index) => {
+      if (message.speaker !== "interviewee") return answers
+
+      const previous = transcript[index - 1]
+      if (previous?.speaker === "interviewee" && answers.length > 0) {
+        answers[answers.length - 1].answer += ` ${message.text}`
+      } else {
+        answers.push({ question: previous?.text ?? "", answer: message.text })
+      }
+
+      return answers
+    },
+    [] as { question: string; answer: string }[]
+  )
+}
+
+// Spoken messages are timestamped when they start, so an interviewee message
+// lasts until the next message. Text interviews and transcripts where an
+// interviewee message has no timed message after it can only be estimated.
+function getMeasuredSpeakingSeconds(
+  transcript: InterviewTranscriptMessage[],
+  mode: InterviewMode
+) {
+  if (mode !== "voice") return null
+
+  const durations = transcript.flatMap((message, index) => {
+    if (message.speaker !== "interviewee") return []
+
+    const next = transcript[index + 1]
+    if (message.sentAt == null || next?.sentAt == null) return [null]
+    return [
+      Math.max(0, next.sentAt.getTime() - message.sentAt.getTime()) / 1000,
+    ]
+  })
+  if (durations.length === 0 || durations.includes(null)) return null
+
+  return sum(durations.map(duration => duration ?? 0))
+}
+
+function countPhrases(text: string, phrases: string[]) {
+  // Curly apostrophes are common in speech to text output
+  const normalizedText = text.toLowerCase().replace(/’/g, "'")
+
+  return phrases
+    .map(phrase => ({
+      phrase,
+      count:
+        normalizedText.match(new RegExp(`\\b${escapeRegExp(phrase)}\\b`, "g"))
+          ?.length ?? 0,
+    }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count)
+}
+
+function getLengthBucket(wordCount: number): AnswerLengthBucket {
+  if (wordCount <= ANSWER_LENGTH_BUCKETS.short.maxWords) return "short"
+  if (wordCount <= ANSWER_LENGTH_BUCKETS.medium.maxWords) return "medium"
+  return "long"
+}
+
+function getMedian(values: number[]) {
+  if (values.length === 0) return null
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle]
+}
+
+function matchesAny(text: string, patterns: RegExp[]) {
+  return patterns.some(pattern => pattern.test(text))
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function round(value: number) {
+  return Math.round(value * 10) / 10
+}
+
+function sum(values: number[]) {
+  return values.reduce((total, value) => total + value, 0)
+}
@@ -0,0 +1,116 @@
+import {
+  analyzeEmotions,
+  EmotionAnalysisResult,
+  EmotionFeatures,
+} from "@/services/ai/emotion-analysis"
+import { analyzeTextEmotions } from "@/services/ai/text-emotion-analysis"
+import { InterviewTranscriptMessage } from "./transcript"
+
+export type InterviewEmotionAnalysis = Omit<
+  EmotionAnalysisResult,
+  "detailedBreakdown"
+> & {
+  source: "voice" | "text"
+  detailedBreakdown: (EmotionAnalysisResult["detailedBreakdown"][number] & {
+    // Identifies the transcript message the entry was computed from. Missing
+    // for analyses stored before it was added.
+    messageKey?: string
+  })[]
+}
+export type EmotionalState =
+  EmotionAnalysisResult["detailedBreakdown"][number]["emotionalState"]
+
+/**
+ * Uses the emotion features measured by Hume when the transcript has them and
+ * falls back to estimating emotions from the text of the answers otherwise
+ * (e.g. text chat interviews).
+ */
+export function analyzeInterviewEmotions(
+  transcript: InterviewTranscriptMessage[]
+): InterviewEmotionAnalysis {
+  const hasEmotionFeatures = transcript.some(
+    message =>
+      message.speaker === "interviewee" && message.emotionFeatures != null
+  )
+
+  if (!hasEmotionFeatures) {
+    return withMessageKeys(transcript, {
+      ...analyzeTextEmotions(transcript),
+      source: "text",
+    })
+  }
+
+  return withMessageKeys(transcript, {
+    ...analyzeEmotions(
+      transcript.map(({ speaker, text, emotionFeatures }) => ({
+        speaker,
+        text,
+        emotionFeatures:
+          emotionFeatures == null
+            ? undefined
+            : normalizeEmotionFeatures(emotionFeatures),
+      }))
+    ),
+    source: "voice",
+  })
+}
+
+/**
+ * A key for a transcript message that stays the same when the transcript is
+ * fetched again or grows, unlike its position
+ */
+export function getInterviewMessageKey(
+  message: Pick<InterviewTranscriptMessage, "sentAt">
+) {
+  return message.sentAt?.toISOString()
+}
+
+function withMessageKeys(
+  transcript: InterviewTranscriptMessage[],
+  analysis: InterviewEmotionAnalysis
+): InterviewEmotionAnalysis {
+  const messageIndexes = getEmotionBreakdownMessageIndexes(transcript, analysis)
+
+  return {
+    ...analysis,
+    detailedBreakdown: analysis.detailedBreakdown.map((entry, index) => {
+      const message = transcript[messageIndexes[index]]
+      return message == null
+        ? entry
+        : { ...entry, messageKey: getInterviewMessageKey(message) }
+    }),
+  }
+}
+
+// Hume reports capitalized expression names and has no confidence expression,
+// so determination is used as the closest proxy for it
+function normalizeEmotionFeatures(emotionFeatures: Record<string, number>) {
+  const normalized: EmotionFeatures = Object.fromEntries(
+    Object.entries(emotionFeatures).map(([emotion, intensity]) => [
+      emotion.toLowerCase(),
+      intensity,
+    ])
+  )
+  normalized.confidence ??= normalized.determination ?? 0
+
+  return normalized
+}
+
+/**
+ * Returns the index of the transcript message each entry of the detailed
+ * breakdown was computed from, using the same message filter as the
+ * analyzer that produced it. Only valid for the transcript the analysis was
+ * computed from, so stored analyses should be matched by `messageKey`.
+ */
+export function getEmotionBreakdownMessageIndexes(
+  transcript: InterviewTranscriptMessage[],
+  analysis: InterviewEmotionAnalysis
+) {
+  return transcript.flatMap((message, index) => {
+    if (message.speaker !== "interviewee") return []
+    if (analysis.source === "voice" && message.emotionFeatures == null) {
+      return []
+    }
+    return [index]
+  })
+}
@@ -0,0 +1,149 @@
+import { InterviewTable, JobInfoTable } from "@/drizzle/schema"
+import { formatDateTime, formatDuration } from "@/lib/formatters"
+import { createPdf, markdownToPdfBlocks } from "@/lib/pdf"
+import { formatEmotionAnalysisReport } from "@/services/ai/emotion-analysis"
+import type { InterviewEmotionAnalysis } from "./emotionAnalysis"
+import {
+  formatInterviewFeedbackAsMarkdown,
+  formatInterviewMode,
+  formatInterviewType,
+  formatInterviewerPersona,
+} from "./formatters"
+import {
+  condenseInterviewTranscript,
+  InterviewTranscriptMessage,
+} from "./transcript"
+
+export const interviewExportFormats = ["markdown", "pdf", "json"] as const
+export type InterviewExportFormat = (typeof interviewExportFormats)[number]
+
+type ExportInterview = typeof InterviewTable.$inferSelect & {
+  jobInfo: Pick<typeof JobInfoTable.$inferSelect, "title" | "name">
+}
+
+export type InterviewExport = ReturnType<typeof getInterviewExport>
+
+/**
+ * Bundles everything a mentor needs to review an interview into a single
+ * document that can then be rendered in any of the export formats
+ */
+export function getInterviewExport({
+  interview,
+  transcript,
+  userName,
+}: {
+  interview: ExportInterview
+  transcript: InterviewTranscriptMessage[]
+  userName: string
+}) {
+  return {
+    interview: {
+      id: interview.id,
+      jobTitle: interview.jobInfo.title ?? interview.jobInfo.name,
+      candidate: userName,
+      createdAt: interview.createdAt.toISOString(),
+      durationSeconds: interview.durationSeconds,
+      mode: interview.mode,
+      type: interview.type,
+      persona: interview.persona,
+    },
+    transcript: condenseInterviewTranscript(transcript).map(message => ({
+      speaker: message.isUser ? userName : "Interviewer",
+      text: message.content.join("\n\n"),
+    })),
+    feedback:
+      interview.structuredFeedback == null && interview.feedback == null
+        ? null
+        : {
+            overallScore: interview.overallScore,
+            markdown:
+              interview.structuredFeedback == null
+                ? interview.feedback
+                : formatInterviewFeedbackAsMarkdown(
+                    interview.structuredFeedback
+                  ),
+            structured: interview.structuredFeedback,
+          },
+    emotionSummary:
+      interview.emotionAnalysis == null
+        ? null
+        : getEmotionSummary(interview.emotionAnalysis),
+    pacingMetrics: interview.pacingMetrics,
+  }
+}
+
+export function renderInterviewExport(
+  data: InterviewExport,
+  format: InterviewExportFormat
+) {
+  switch (format) {
+    case "markdown":
+      return {
+        body: formatInterviewExportAsMarkdown(data),
+        contentType: "text/markdown; charset=utf-8",
+        extension: "md",
+      }
+    case "pdf":
+      return {
+        body: createPdf(
+          markdownToPdfBlocks(formatInterviewExportAsMarkdown(data))
+        ),
+        contentType: "application/pdf",
+        extension: "pdf",
+      }
+    case "json":
+      return {
+        body: JSON.stringify(data, null, 2),
+        contentType: "application/json; charset=utf-8",
+        extension: "json",
+      }
+    default:
+      throw new Error(`Unknown export format: ${format satisfies never}`)
+  }
+}
+
+function formatInterviewExportAsMarkdown({
+  interview,
+  transcript,
+  feedback,
+  emotionSummary,
+}: InterviewExport) {
+  const sections = [
+    `# Mock Interview: ${interview.jobTitle}`,
+    [
+      `- Candidate: ${interview.candidate}`,
+      `- Date: ${formatDateTime(new Date(interview.createdAt))}`,
+      `- Duration: ${formatDuration(interview.durationSeconds)}`,
+      `- Type: ${formatInterviewType(interview.type)}`,
+      `- Interviewer: ${formatInterviewerPersona(interview.persona)}`,
+      `- Mode: ${formatInterviewMode(interview.mode)}`,
+    ].join("\n"),
+  ]
+
+  if (feedback?.markdown != null) {
+    sections.push("# Feedback", feedback.markdown)
+  }
+
+  if (emotionSummary != null) {
+    sections.push(emotionSummary.markdown)
+  }
+
+  sections.push(
+    "# Transcript",
+    ...transcript.map(({ speaker, text }) => `### ${speaker}\n\n${text}`)
+  )
+
+  return sections.join("\n\n")
+}
+
+function getEmotionSummary(analysis: InterviewEmotionAnalysis) {
+  return {
+    source: analysis.source,
+    overallConfidence: analysis.overallConfidence,
+    averageCalmness: analysis.averageCalmness,
+    emotionalStability: analysis.emotionalStability,
+    dominantEmotions: analysis.dominantEmotions.map(({ emotion }) => emotion),
+    insights: analysis.insights,
+    markdown: formatEmotionAnalysisReport(analysis),
+  }
+}
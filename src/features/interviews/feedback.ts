@@ -0,0 +1,108 @@
+import { db } from "@/drizzle/db"
+import { InterviewFeedbackStatus, InterviewTable } from "@/drizzle/schema"
+import { generateAiInterviewFeedback } from "@/services/ai/interviews"
+import { eq } from "drizzle-orm"
+import { after } from "next/server"
+import { updateInterview } from "./db"
+import { analyzeInterviewEmotions } from "./emotionAnalysis"
+import { formatInterviewFeedbackAsMarkdown } from "./formatters"
+import { getInterviewPacingMetrics } from "./pacingMetrics"
+import { getInterviewScores } from "./scores"
+import { getInterviewTranscript } from "./transcript"
+
+// Generating feedback takes well under this, so feedback that is still in
+// progress afterwards was dropped, e.g. by a server restart
+const FEEDBACK_STALE_AFTER_MINUTES = 10
+
+/**
+ * The feedback status of an interview, treating feedback that has been
+ * pending or processing for too long as failed so it can be retried
+ */
+export function getInterviewFeedbackStatus(
+  interview: Pick<
+    typeof InterviewTable.$inferSelect,
+    "feedbackStatus" | "updatedAt"
+  >,
+  now = new Date()
+): InterviewFeedbackStatus | null {
+  const { feedbackStatus, updatedAt } = interview
+  if (feedbackStatus !== "pending" && feedbackStatus !== "processing") {
+    return feedbackStatus
+  }
+
+  const staleAt = updatedAt.getTime() + FEEDBACK_STALE_AFTER_MINUTES * 60_000
+  return now.getTime() >= staleAt ? "failed" : feedbackStatus
+}
+
+export function isInterviewFeedbackInProgress(
+  interview: Pick<
+    typeof InterviewTable.$inferSelect,
+    "feedbackStatus" | "updatedAt"
+  >
+) {
+  const status = getInterviewFeedbackStatus(interview)
+  return status === "pending" || status === "processing"
+}
+
+/**
+ * Marks the feedback of an interview as pending and generates it after the
+ * response has been sent, so the user does not have to wait for it.
+ */
+export async function queueInterviewFeedback(
+  interviewId: string,
+  userName: string
+) {
+  await updateInterview(interviewId, { feedbackStatus: "pending" })
+  after(() => generateInterviewFeedback(interviewId, userName))
+}
+
+async function generateInterviewFeedback(
+  interviewId: string,
+  userName: string
+) {
+  // The interview may have changed since the feedback was queued
+  const interview = await getFeedbackInterview(interviewId)
+  if (interview == null) return
+
+  await updateInterview(interview.id, { feedbackStatus: "processing" })
+
+  try {
+    const transcript = await getInterviewTranscript(interview)
+    if (transcript == null || transcript.length === 0) {
+      throw new Error("Interview has no transcript")
+    }
+
+    const emotionAnalysis = analyzeInterviewEmotions(transcript)
+    const pacingMetrics = getInterviewPacingMetrics(transcript, interview.mode)
+    const feedback = await generateAiInterviewFeedback({
+      transcript,
+      emotionAnalysis,
+      pacingMetrics,
+      interview,
+      jobInfo: interview.jobInfo,
+      userName,
+    })
+
+    await updateInterview(interview.id, {
+      feedback: formatInterviewFeedbackAsMarkdown(feedback),
+      feedbackStatus: "completed",
+      structuredFeedback: feedback,
+      emotionAnalysis,
+      pacingMetrics,
+      ...getInterviewScores(feedback),
+    })
+  } catch {
+    await updateInterview(interview.id, { feedbackStatus: "failed" })
+  }
+}
+
+function getFeedbackInterview(id: string) {
+  return db.query.InterviewTable.findFirst({
+    where: eq(InterviewTable.id, id),
+    with: {
+      jobInfo: {
+        columns: { title: true, description: true, experienceLevel: true },
+      },
+    },
+  })
+}
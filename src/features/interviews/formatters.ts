@@ -0,0 +1,141 @@
+import {
+  InterviewerPersona,
+  InterviewFeedbackStatus,
+  InterviewMode,
+  InterviewType,
+} from "@/drizzle/schema"
+import {
+  AiInterviewFeedback,
+  InterviewFeedbackCategory,
+  interviewFeedbackCategories,
+} from "@/services/ai/interviewSchemas"
+import type { EmotionalState } from "./emotionAnalysis"
+
+export function formatInterviewMode(mode: InterviewMode) {
+  switch (mode) {
+    case "voice":
+      return "Voice"
+    case "text":
+      return "Text Chat"
+    default:
+      throw new Error(`Unknown interview mode: ${mode satisfies never}`)
+  }
+}
+
+export function formatInterviewType(type: InterviewType) {
+  switch (type) {
+    case "screening":
+      return "Screening"
+    case "technical":
+      return "Technical"
+    case "behavioral":
+      return "Behavioral"
+    case "hiring-manager":
+      return "Hiring Manager"
+    default:
+      throw new Error(`Unknown interview type: ${type satisfies never}`)
+  }
+}
+
+export function formatInterviewerPersona(persona: InterviewerPersona) {
+  switch (persona) {
+    case "friendly":
+      return "Friendly"
+    case "neutral":
+      return "Neutral"
+    case "challenging":
+      return "Challenging"
+    default:
+      throw new Error(`Unknown interviewer persona: ${persona satisfies never}`)
+  }
+}
+
+export function formatInterviewFeedbackStatus(status: InterviewFeedbackStatus) {
+  switch (status) {
+    case "pending":
+      return "Feedback Queued"
+    case "processing":
+      return "Generating Feedback"
+    case "completed":
+      return "Feedback Ready"
+    case "failed":
+      return "Feedback Failed"
+    default:
+      throw new Error(`Unknown feedback status: ${status satisfies never}`)
+  }
+}
+
+export function formatEmotionalState(state: EmotionalState) {
+  switch (state) {
+    case "confident":
+      return "Confident"
+    case "nervous":
+      return "Nervous"
+    case "calm":
+      return "Calm"
+    case "engaged":
+      return "Engaged"
+    case "uncertain":
+      return "Uncertain"
+    default:
+      throw new Error(`Unknown emotional state: ${state satisfies never}`)
+  }
+}
+
+export function formatInterviewFeedbackCategory(
+  category: InterviewFeedbackCategory
+) {
+  switch (category) {
+    case "communicationClarity":
+      return "Communication Clarity"
+    case "confidence":
+      return "Confidence and Emotional State"
+    case "responseQuality":
+      return "Response Quality"
+    case "pacing":
+      return "Pacing and Timing"
+    case "engagement":
+      return "Engagement and Interaction"
+    case "roleFit":
+      return "Role Fit & Alignment"
+    case "overallAssessment":
+      return "Overall Strengths & Areas for Improvement"
+    default:
+      throw new Error(
+        `Unknown interview feedback category: ${category satisfies never}`
+      )
+  }
+}
+
+export function formatInterviewFeedbackAsMarkdown(
+  feedback: AiInterviewFeedback
+) {
+  const sections = [
+    `## Overall Rating: ${feedback.overallScore}/10`,
+    feedback.summary,
+  ]
+
+  interviewFeedbackCategories.forEach(category => {
+    const {
+      score,
+      feedback: text,
+      evidence,
+      actionItems,
+    } = feedback.categories[category]
+
+    sections.push(
+      `## ${formatInterviewFeedbackCategory(category)}: ${score}/10`,
+      text
+    )
+    if (evidence.length > 0) {
+      sections.push(evidence.map(quote => `> "${quote}"`).join("\n>\n"))
+    }
+    if (actionItems.length > 0) {
+      sections.push(
+        `### Action Items\n${actionItems.map(item => `- ${item}`).join("\n")}`
+      )
+    }
+  })
+
+  return sections.join("\n\n")
+}
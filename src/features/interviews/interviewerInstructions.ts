@@ -0,0 +1,29 @@
+import { InterviewerPersona, InterviewType } from "@/drizzle/schema"
+
+export function getInterviewTypeInstructions(type: InterviewType) {
+  switch (type) {
+    case "screening":
+      return "This is an initial screening interview. Focus on the candidate's background, motivation for the role, communication skills and basic fit for the position."
+    case "technical":
+      return "This is a technical interview. Focus on the technical skills required by the job description, ask the candidate to explain concepts, reason through problems and describe technical decisions they have made."
+    case "behavioral":
+      return "This is a behavioral interview. Ask about specific past situations (e.g. conflicts, failures, leadership, teamwork) and expect answers that follow the STAR method (Situation, Task, Action, Result)."
+    case "hiring-manager":
+      return "This is a hiring manager interview. Focus on how the candidate would approach the day to day work of the role, their priorities, collaboration with the team, ownership and long term goals."
+    default:
+      throw new Error(`Unknown interview type: ${type satisfies never}`)
+  }
+}
+
+export function getInterviewerPersonaInstructions(persona: InterviewerPersona) {
+  switch (persona) {
+    case "friendly":
+      return "Be warm and encouraging. Help the candidate feel at ease and gently rephrase questions when they get stuck."
+    case "neutral":
+      return "Be professional and neutral. Do not signal whether answers were good or bad."
+    case "challenging":
+      return "Be direct and demanding. Probe vague answers, push back on weak reasoning and ask tough follow-up questions, while staying respectful."
+    default:
+      throw new Error(`Unknown interviewer persona: ${persona satisfies never}`)
+  }
+}
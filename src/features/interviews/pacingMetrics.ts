@@ -0,0 +1,107 @@
+import { InterviewMode } from "@/drizzle/schema"
+import { InterviewTranscriptMessage } from "./transcript"
+
+// Average conversational speaking rate used to estimate how long a spoken
+// message took, since Hume only timestamps the start of each message
+export const SPOKEN_WORDS_PER_SECOND = 2.5
+
+export type InterviewPacingMetrics = {
+  responseLatencies: { question: string; latencySeconds: number }[]
+  averageResponseLatencySeconds: number | null
+  talkTimeRatio: number | null
+  longestPauseSeconds: number | null
+}
+
+/**
+ * Computes pacing metrics from the message timestamps of a transcript:
+ * - the time between the end of each interviewer turn and the interviewee's
+ *   reply
+ * - the share of the conversation taken by the interviewee (0-1), based on
+ *   the number of words since talk time is proportional to it
+ * - the longest silence between two messages
+ */
+export function getInterviewPacingMetrics(
+  transcript: InterviewTranscriptMessage[],
+  mode: InterviewMode
+): InterviewPacingMetrics {
+  const messages = transcript.flatMap(message =>
+    message.sentAt == null
+      ? []
+      : [
+          {
+            ...message,
+            startTime: message.sentAt.getTime() / 1000,
+            wordCount: getWordCount(message.text),
+          },
+        ]
+  )
+
+  const gaps = messages.slice(1).map((message, index) => {
+    const previous = messages[index]
+    const pauseSeconds = Math.max(
+      0,
+      message.startTime -
+        previous.startTime -
+        getTalkSeconds(previous.wordCount, mode)
+    )
+
+    return { previous, message, pauseSeconds }
+  })
+
+  const responseLatencies = gaps.flatMap(
+    ({ previous, message, pauseSeconds }) =>
+      previous.speaker === "interviewer" && message.speaker === "interviewee"
+        ? [
+            {
+              question: previous.text,
+              latencySeconds: Math.round(pauseSeconds),
+            },
+          ]
+        : []
+  )
+
+  const intervieweeWordCount = sum(
+    messages
+      .filter(message => message.speaker === "interviewee")
+      .map(message => message.wordCount)
+  )
+  const totalWordCount = sum(messages.map(message => message.wordCount))
+
+  return {
+    responseLatencies,
+    averageResponseLatencySeconds:
+      responseLatencies.length === 0
+        ? null
+        : Math.round(
+            sum(responseLatencies.map(({ latencySeconds }) => latencySeconds)) /
+              responseLatencies.length
+          ),
+    talkTimeRatio:
+      totalWordCount === 0 ? null : intervieweeWordCount / totalWordCount,
+    longestPauseSeconds:
+      gaps.length === 0
+        ? null
+        : Math.round(Math.max(...gaps.map(({ pauseSeconds }) => pauseSeconds))),
+  }
+}
+
+// Text messages are stored once they are complete, so only spoken messages
+// take time after their timestamp
+function getTalkSeconds(wordCount: number, mode: InterviewMode) {
+  switch (mode) {
+    case "voice":
+      return wordCount / SPOKEN_WORDS_PER_SECOND
+    case "text":
+      return 0
+    default:
+      throw new Error(`Unknown interview mode: ${mode satisfies never}`)
+  }
+}
+
+export function getWordCount(text: string) {
+  return text.split(/\s+/).filter(word => word !== "").length
+}
+
+function sum(values: number[]) {
+  return values.reduce((total, value) => total + value, 0)
+}
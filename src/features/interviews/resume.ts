@@ -0,0 +1,19 @@
+import { InterviewTable } from "@/drizzle/schema"
+
+/**
+ * Voice interviews that lost their connection before being ended can be
+ * continued in the same Hume chat group, which keeps the context of the
+ * conversation so far
+ */
+export function isInterviewResumable<
+  T extends Pick<
+    typeof InterviewTable.$inferSelect,
+    "mode" | "endedAt" | "humeChatGroupId"
+  >,
+>(interview: T): interview is T & { humeChatGroupId: string } {
+  return (
+    interview.mode === "voice" &&
+    interview.endedAt == null &&
+    interview.humeChatGroupId != null
+  )
+}
@@ -0,0 +1,22 @@
+import { interviewerPersonas, interviewTypes } from "@/drizzle/schema"
+import z from "zod"
+
+export const interviewTargetDurations = [10, 15, 20, 30, 45] as const
+
+export const interviewSettingsSchema = z.object({
+  type: z.enum(interviewTypes),
+  persona: z.enum(interviewerPersonas),
+  targetDurationMinutes: z
+    .number()
+    .int()
+    .min(interviewTargetDurations[0])
+    .max(interviewTargetDurations[interviewTargetDurations.length - 1]),
+})
+
+export type InterviewSettings = z.infer<typeof interviewSettingsSchema>
+
+export const defaultInterviewSettings: InterviewSettings = {
+  type: "screening",
+  persona: "neutral",
+  targetDurationMinutes: 20,
+}
@@ -0,0 +1,18 @@
+import { InterviewTable } from "@/drizzle/schema"
+import { AiInterviewFeedback } from "@/services/ai/interviewSchemas"
+
+export function getInterviewScores({
+  overallScore,
+  categories,
+}: AiInterviewFeedback) {
+  return {
+    overallScore,
+    communicationClarityScore: categories.communicationClarity.score,
+    confidenceScore: categories.confidence.score,
+    responseQualityScore: categories.responseQuality.score,
+    pacingScore: categories.pacing.score,
+    engagementScore: categories.engagement.score,
+    roleFitScore: categories.roleFit.score,
+    overallAssessmentScore: categories.overallAssessment.score,
+  } satisfies Partial<typeof InterviewTable.$inferInsert>
+}
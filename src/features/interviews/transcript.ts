@@ -0,0 +1,196 @@
+import { db } from "@/drizzle/db"
+import {
+  InterviewMessageSpeaker,
+  InterviewMessageTable,
+  InterviewTable,
+} from "@/drizzle/schema"
+import {
+  fetchChatGroupMessages,
+  fetchChatMessages,
+} from "@/services/hume/lib/api"
+import { asc, eq } from "drizzle-orm"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import { after } from "next/server"
+import { insertInterviewMessages } from "../interviewMessages/db"
+import { getInterviewMessageInterviewTag } from "../interviewMessages/dbCache"
+import { updateInterview } from "./db"
+
+export type InterviewTranscriptMessage = {
+  speaker: InterviewMessageSpeaker
+  text: string
+  emotionFeatures?: Record<string, number> | null
+  sentAt?: Date
+}
+
+type TranscriptInterview = Pick<
+  typeof InterviewTable.$inferSelect,
+  | "id"
+  | "jobInfoId"
+  | "mode"
+  | "humeChatId"
+  | "humeChatGroupId"
+  | "durationSyncedAt"
+  | "transcriptSyncedAt"
+>
+
+/**
+ * Reads the transcript of an interview from our own database. Voice
+ * interviews are fetched from Hume again when the stored transcript may be
+ * missing messages (e.g. calls that ended before transcripts were saved or
+ * that were resumed since), falling back to the stored messages if Hume
+ * can't be reached. Returns null when a voice interview was never connected
+ * to a Hume chat.
+ */
+export async function getInterviewTranscript(
+  interview: TranscriptInterview
+): Promise<InterviewTranscriptMessage[] | null> {
+  const messages = await getInterviewMessages(interview.id)
+  if (interview.mode === "text") return messages
+  if (interview.humeChatId == null) return messages.length > 0 ? messages : null
+  if (messages.length > 0 && !isStoredTranscriptStale(interview)) {
+    return messages
+  }
+
+  const syncedAt = new Date()
+  let humeMessages
+  try {
+    humeMessages = await fetchHumeTranscript(
+      interview.humeChatId,
+      interview.humeChatGroupId
+    )
+  } catch (error) {
+    if (messages.length > 0) return messages
+    throw error
+  }
+  // Saving revalidates the cache which is not allowed while rendering
+  after(() => saveHumeTranscript(interview, humeMessages, syncedAt))
+
+  return humeMessages
+}
+
+/**
+ * Stores every message of the interview's Hume chats and returns when the
+ * sync started, or null when the interview has nothing to sync
+ */
+export async function syncInterviewTranscript(interview: TranscriptInterview) {
+  if (interview.mode !== "voice" || interview.humeChatId == null) return null
+
+  const syncedAt = new Date()
+  await saveHumeTranscript(
+    interview,
+    await fetchHumeTranscript(interview.humeChatId, interview.humeChatGroupId),
+    syncedAt
+  )
+
+  return syncedAt
+}
+
+// The duration is synced while a call is connected and when it is resumed, so
+// a call that was connected since the last transcript sync may have messages
+// that are not stored yet
+function isStoredTranscriptStale(interview: TranscriptInterview) {
+  return (
+    interview.transcriptSyncedAt == null ||
+    interview.transcriptSyncedAt < interview.durationSyncedAt
+  )
+}
+
+export async function getInterviewMessages(interviewId: string) {
+  "use cache"
+  cacheTag(getInterviewMessageInterviewTag(interviewId))
+
+  return db.query.InterviewMessageTable.findMany({
+    columns: { speaker: true, text: true, emotionFeatures: true, sentAt: true },
+    where: eq(InterviewMessageTable.interviewId, interviewId),
+    orderBy: [
+      asc(InterviewMessageTable.sentAt),
+      asc(InterviewMessageTable.createdAt),
+    ],
+  })
+}
+
+export function condenseInterviewTranscript(
+  transcript: InterviewTranscriptMessage[]
+) {
+  return transcript.reduce(
+    (acc, message, index) => {
+      const isUser = message.speaker === "interviewee"
+      const lastMessage = acc.at(-1)
+
+      if (lastMessage?.isUser === isUser) {
+        lastMessage.content.push(message.text)
+        lastMessage.messageIndexes.push(index)
+      } else {
+        acc.push({ isUser, content: [message.text], messageIndexes: [index] })
+      }
+
+      return acc
+    },
+    [] as { isUser: boolean; content: string[]; messageIndexes: number[] }[]
+  )
+}
+
+// Messages are stored before the sync time so a failed insert is retried on
+// the next read. The sync time is when the fetch started, since messages sent
+// while it was running may be missing from it.
+async function saveHumeTranscript(
+  interview: TranscriptInterview,
+  messages: (InterviewTranscriptMessage & { humeEventId: string })[],
+  syncedAt: Date
+) {
+  await insertInterviewMessages(
+    messages.map(message => ({ ...message, interviewId: interview.id })),
+    { jobInfoId: interview.jobInfoId }
+  )
+  await updateInterview(interview.id, { transcriptSyncedAt: syncedAt })
+}
+
+// Resumed interviews span several chats of the same chat group, while older
+// interviews only stored the ID of their single chat
+async function fetchHumeTranscript(
+  humeChatId: string,
+  humeChatGroupId: string | null
+) {
+  const events =
+    humeChatGroupId == null
+      ? await fetchChatMessages(humeChatId)
+      : await fetchChatGroupMessages(humeChatGroupId)
+
+  return events.flatMap(event => {
+    if (event.type !== "USER_MESSAGE" && event.type !== "AGENT_MESSAGE") {
+      return []
+    }
+    if (event.messageText == null) return []
+
+    return [
+      {
+        humeEventId: event.id,
+        speaker:
+          event.type === "USER_MESSAGE"
+            ? ("interviewee" as const)
+            : ("interviewer" as const),
+        text: event.messageText,
+        emotionFeatures:
+          event.role === "USER"
+            ? parseEmotionFeatures(event.emotionFeatures)
+            : null,
+        sentAt: parseHumeTimestamp(event.timestamp),
+      },
+    ]
+  })
+}
+
+function parseEmotionFeatures(emotionFeatures: string | undefined) {
+  if (emotionFeatures == null) return null
+
+  try {
+    return JSON.parse(emotionFeatures) as Record<string, number>
+  } catch {
+    return null
+  }
+}
+
+// Hume documents the timestamp in seconds but the API returns milliseconds
+function parseHumeTimestamp(timestamp: number) {
+  return new Date(timestamp < 1e12 ? timestamp * 1000 : timestamp)
+}
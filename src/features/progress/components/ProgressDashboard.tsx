@@ -0,0 +1,150 @@
+import { Badge } from "@/components/ui/badge"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { formatQuestionDifficulty } from "@/features/questions/formatters"
+import { formatReadinessLevel } from "../formatters"
+import { getProgressStats, RatingGroup, ReadinessLevel } from "../stats"
+import { ScoreTrendChart } from "./ScoreTrendChart"
+import { StreakCards } from "./StreakCards"
+
+export function ProgressDashboard({
+  stats,
+}: {
+  stats: ReturnType<typeof getProgressStats>
+}) {
+  const { readiness } = stats
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader>
+            <CardDescription>Readiness</CardDescription>
+            <CardTitle className="text-3xl flex items-center gap-2 tabular-nums">
+              {readiness.score ?? "-"}
+              <Badge variant={getReadinessBadgeVariant(readiness.level)}>
+                {formatReadinessLevel(readiness.level)}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            Based on your latest interviews, question ratings and resume score
+          </CardContent>
+        </Card>
+        <StreakCards practiceDates={stats.practiceDates} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <TrendCard
+          title="Interview Scores"
+          description="Overall score of each interview with feedback"
+          points={stats.interviewScores}
+        />
+        <TrendCard
+          title="Resume Scores"
+          description="Overall score of each resume analysis"
+          points={stats.resumeScores}
+        />
+        <TrendCard
+          title="Question Ratings"
+          description="Rating of each answered practice question"
+          points={stats.questionRatings}
+        />
+        <Card>
+          <CardHeader>
+            <CardTitle>Question Ratings by Difficulty and Topic</CardTitle>
+            <CardDescription>Average rating of your answers</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <RatingBars
+              groups={stats.ratingsByDifficulty.map(group => ({
+                ...group,
+                label: formatQuestionDifficulty(group.label),
+              }))}
+            />
+            {stats.ratingsByTopic.length > 0 && (
+              <RatingBars groups={stats.ratingsByTopic} />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+function TrendCard({
+  title,
+  description,
+  points,
+}: {
+  title: string
+  description: string
+  points: Parameters<typeof ScoreTrendChart>[0]["points"]
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ScoreTrendChart points={points} />
+      </CardContent>
+    </Card>
+  )
+}
+
+function RatingBars({ groups }: { groups: RatingGroup[] }) {
+  if (groups.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center">
+        No rated answers yet
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {groups.map(({ label, averageRating, count }) => (
+        <div key={label} className="space-y-1">
+          <div className="flex justify-between gap-4 text-sm">
+            <span>
+              {label}{" "}
+              <span className="text-muted-foreground">
+                ({count} {count === 1 ? "answer" : "answers"})
+              </span>
+            </span>
+            <span className="tabular-nums text-muted-foreground">
+              {Math.round(averageRating * 10) / 10}/10
+            </span>
+          </div>
+          <div className="h-2 rounded bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary"
+              style={{ width: `${averageRating * 10}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function getReadinessBadgeVariant(level: ReadinessLevel) {
+  switch (level) {
+    case "ready":
+      return "default"
+    case "almost-ready":
+      return "warning"
+    case "needs-practice":
+    case "not-started":
+      return "outline"
+    default:
+      throw new Error(`Unknown readiness level: ${level satisfies never}`)
+  }
+}
@@ -0,0 +1,72 @@
+import { formatDateTime } from "@/lib/formatters"
+import { ScorePoint } from "../stats"
+
+const WIDTH = 600
+const HEIGHT = 160
+const PADDING = 12
+const MAX_SCORE = 10
+
+export function ScoreTrendChart({ points }: { points: ScorePoint[] }) {
+  if (points.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-6 text-center">
+        No scores yet
+      </p>
+    )
+  }
+
+  function getX(index: number) {
+    if (points.length === 1) return WIDTH / 2
+    return PADDING + (index / (points.length - 1)) * (WIDTH - PADDING * 2)
+  }
+
+  function getY(score: number) {
+    return HEIGHT - PADDING - (score / MAX_SCORE) * (HEIGHT - PADDING * 2)
+  }
+
+  return (
+    <div className="space-y-1">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto overflow-visible"
+      >
+        {[0, MAX_SCORE / 2, MAX_SCORE].map(score => (
+          <line
+            key={score}
+            x1={PADDING}
+            x2={WIDTH - PADDING}
+            y1={getY(score)}
+            y2={getY(score)}
+            className="stroke-border"
+            strokeDasharray="4 4"
+          />
+        ))}
+        <polyline
+          className="fill-none stroke-primary"
+          strokeWidth={2.5}
+          points={points
+            .map(({ score }, index) => `${getX(index)},${getY(score)}`)
+            .join(" ")}
+        />
+        {points.map(({ date, score }, index) => (
+          <circle
+            key={index}
+            cx={getX(index)}
+            cy={getY(score)}
+            r={4}
+            className="fill-primary stroke-background"
+            strokeWidth={2}
+          >
+            <title>{`${formatDateTime(date)}: ${Math.round(score * 10) / 10}/10`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatDateTime(points[0].date)}</span>
+        {points.length > 1 && (
+          <span>{formatDateTime(points[points.length - 1].date)}</span>
+        )}
+      </div>
+    </div>
+  )
+}
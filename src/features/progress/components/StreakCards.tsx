@@ -0,0 +1,57 @@
+"use client"
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { FlameIcon, TrophyIcon } from "lucide-react"
+import { useEffect, useState } from "react"
+import { getStreak } from "../stats"
+
+export function StreakCards({ practiceDates }: { practiceDates: Date[] }) {
+  // The browser's timezone is only known after mounting
+  const [streak, setStreak] = useState<ReturnType<typeof getStreak>>()
+
+  useEffect(() => {
+    setStreak(
+      getStreak(
+        practiceDates,
+        Intl.DateTimeFormat().resolvedOptions().timeZone
+      )
+    )
+  }, [practiceDates])
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardDescription>Current Streak</CardDescription>
+          <CardTitle className="text-3xl flex items-center gap-2 tabular-nums">
+            <FlameIcon className="size-7 text-orange-500" />
+            {formatDays(streak?.current)}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground">
+          Consecutive days with any practice
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardDescription>Longest Streak</CardDescription>
+          <CardTitle className="text-3xl flex items-center gap-2 tabular-nums">
+            <TrophyIcon className="size-7 text-yellow-500" />
+            {formatDays(streak?.longest)}
+          </CardTitle>
+        </CardHeader>
+      </Card>
+    </>
+  )
+}
+
+function formatDays(days: number | undefined) {
+  if (days == null) return "-"
+  return `${days} ${days === 1 ? "day" : "days"}`
+}
@@ -0,0 +1,16 @@
+import { ReadinessLevel } from "./stats"
+
+export function formatReadinessLevel(level: ReadinessLevel) {
+  switch (level) {
+    case "not-started":
+      return "Not Started"
+    case "needs-practice":
+      return "Needs Practice"
+    case "almost-ready":
+      return "Almost Ready"
+    case "ready":
+      return "Ready"
+    default:
+      throw new Error(`Unknown readiness level: ${level satisfies never}`)
+  }
+}
@@ -0,0 +1,217 @@
+import { QuestionDifficulty, questionDifficulties } from "@/drizzle/schema"
+
+const RECENT_INTERVIEW_COUNT = 3
+const RECENT_QUESTION_ATTEMPT_COUNT = 10
+const MAX_TOPICS = 8
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+
+// How much each kind of practice counts towards the readiness score
+const READINESS_WEIGHTS = {
+  interviews: 0.5,
+  questions: 0.3,
+  resume: 0.2,
+}
+
+export type ReadinessLevel =
+  "not-started" | "needs-practice" | "almost-ready" | "ready"
+
+export type ProgressJobInfo = {
+  interviews: { createdAt: Date; overallScore: number | null }[]
+  questions: {
+    difficulty: QuestionDifficulty
+    topic: string | null
+    attempts: { createdAt: Date; rating: number | null }[]
+  }[]
+  resumeAnalyses: { createdAt: Date; overallScore: number }[]
+}
+
+export type ScorePoint = { date: Date; score: number }
+export type RatingGroup<L extends string = string> = {
+  label: L
+  averageRating: number
+  count: number
+}
+
+/**
+ * Summarizes the practice history of one or more job infos. All scores and
+ * ratings use the same 0-10 scale, while the readiness score is 0-100.
+ */
+export function getProgressStats(jobInfos: ProgressJobInfo[]) {
+  const interviewScores = sortByDate(
+    jobInfos.flatMap(jobInfo =>
+      jobInfo.interviews.flatMap(({ createdAt, overallScore }) =>
+        overallScore == null ? [] : [{ date: createdAt, score: overallScore }]
+      )
+    )
+  )
+  const attempts = jobInfos.flatMap(jobInfo =>
+    jobInfo.questions.flatMap(question =>
+      question.attempts.map(attempt => ({
+        ...attempt,
+        difficulty: question.difficulty,
+        topic: question.topic,
+      }))
+    )
+  )
+  const ratedAttempts = attempts.flatMap(({ rating, ...attempt }) =>
+    rating == null ? [] : [{ ...attempt, rating }]
+  )
+  const questionRatings = sortByDate(
+    ratedAttempts.map(({ createdAt, rating }) => ({
+      date: createdAt,
+      score: rating,
+    }))
+  )
+  const resumeScores = sortByDate(
+    jobInfos.flatMap(jobInfo =>
+      jobInfo.resumeAnalyses.map(({ createdAt, overallScore }) => ({
+        date: createdAt,
+        score: overallScore,
+      }))
+    )
+  )
+
+  return {
+    interviewScores,
+    questionRatings,
+    resumeScores,
+    ratingsByDifficulty: questionDifficulties.flatMap(difficulty =>
+      getRatingGroups(
+        ratedAttempts.filter(attempt => attempt.difficulty === difficulty),
+        () => difficulty
+      )
+    ),
+    ratingsByTopic: getRatingGroups(
+      ratedAttempts.filter(({ topic }) => topic != null),
+      ({ topic }) => topic ?? ""
+    )
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_TOPICS),
+    // Streaks depend on the user's timezone, so they are counted on the client
+    practiceDates: [
+      ...jobInfos.flatMap(({ interviews }) => interviews),
+      ...attempts,
+      ...jobInfos.flatMap(({ resumeAnalyses }) => resumeAnalyses),
+    ].map(({ createdAt }) => createdAt),
+    readiness: getReadiness({
+      interviewScores,
+      questionRatings,
+      resumeScores,
+    }),
+  }
+}
+
+function getRatingGroups<T extends { rating: number }, L extends string>(
+  attempts: T[],
+  getLabel: (attempt: T) => L
+): RatingGroup<L>[] {
+  const groups = new Map<L, number[]>()
+  attempts.forEach(attempt => {
+    const label = getLabel(attempt)
+    groups.set(label, [...(groups.get(label) ?? []), attempt.rating])
+  })
+
+  return [...groups.entries()].map(([label, ratings]) => ({
+    label,
+    averageRating: average(ratings),
+    count: ratings.length,
+  }))
+}
+
+/**
+ * Counts the consecutive days with any practice, where days start at midnight
+ * in the given timezone. A streak is only broken once a full day passes
+ * without practice, so today not having any practice yet keeps the current
+ * streak.
+ */
+export function getStreak(dates: Date[], timeZone: string, now = new Date()) {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  })
+  const days = new Set(dates.map(date => getDayNumber(date, formatter)))
+  const today = getDayNumber(now, formatter)
+
+  let current = 0
+  let day = days.has(today) ? today : today - 1
+  while (days.has(day)) {
+    current++
+    day--
+  }
+
+  let longest = 0
+  days.forEach(day => {
+    if (days.has(day - 1)) return
+
+    let length = 1
+    while (days.has(day + length)) length++
+    longest = Math.max(longest, length)
+  })
+
+  return { current, longest }
+}
+
+function getReadiness({
+  interviewScores,
+  questionRatings,
+  resumeScores,
+}: {
+  interviewScores: ScorePoint[]
+  questionRatings: ScorePoint[]
+  resumeScores: ScorePoint[]
+}): { score: number | null; level: ReadinessLevel } {
+  const components = [
+    {
+      weight: READINESS_WEIGHTS.interviews,
+      points: interviewScores.slice(-RECENT_INTERVIEW_COUNT),
+    },
+    {
+      weight: READINESS_WEIGHTS.questions,
+      points: questionRatings.slice(-RECENT_QUESTION_ATTEMPT_COUNT),
+    },
+    { weight: READINESS_WEIGHTS.resume, points: resumeScores.slice(-1) },
+  ].filter(({ points }) => points.length > 0)
+
+  if (components.length === 0) return { score: null, level: "not-started" }
+
+  // Missing kinds of practice are left out instead of counting as zero, so
+  // the score reflects the quality of the practice done so far
+  const totalWeight = components.reduce(
+    (total, { weight }) => total + weight,
+    0
+  )
+  const score = Math.round(
+    (components.reduce(
+      (total, { weight, points }) =>
+        total + weight * average(points.map(({ score }) => score)),
+      0
+    ) /
+      totalWeight) *
+      10
+  )
+
+  if (score >= 75) return { score, level: "ready" }
+  if (score >= 50) return { score, level: "almost-ready" }
+  return { score, level: "needs-practice" }
+}
+
+function getDayNumber(date: Date, formatter: Intl.DateTimeFormat) {
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map(({ type, value }) => [type, value])
+  )
+
+  return (
+    Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day)) /
+    DAY_IN_MS
+  )
+}
+
+function sortByDate(points: ScorePoint[]) {
+  return points.sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+function average(values: number[]) {
+  return values.reduce((total, value) => total + value, 0) / values.length
+}
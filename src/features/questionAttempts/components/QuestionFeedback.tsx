@@ -0,0 +1,208 @@
+"use client"
+
+import { MarkdownRenderer } from "@/components/MarkdownRenderer"
+import { Skeleton } from "@/components/Skeleton"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import {
+  AiQuestionFeedback,
+  starComponents,
+} from "@/services/ai/questionSchemas"
+import { DeepPartial } from "ai"
+import { AlertCircleIcon, CheckCircleIcon } from "lucide-react"
+import { ReactNode, useState } from "react"
+import {
+  formatQuestionFeedbackAsMarkdown,
+  formatStarComponent,
+} from "../formatters"
+import { QuestionRatingBadge } from "./QuestionRatingBadge"
+
+type View = "structured" | "markdown"
+
+export function QuestionFeedback({
+  feedback,
+  className,
+}: {
+  feedback: DeepPartial<AiQuestionFeedback>
+  className?: string
+}) {
+  const [view, setView] = useState<View>("structured")
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div className="flex gap-2 justify-end">
+        <Button
+          size="sm"
+          variant={view === "structured" ? "secondary" : "ghost"}
+          onClick={() => setView("structured")}
+        >
+          Structured
+        </Button>
+        <Button
+          size="sm"
+          variant={view === "markdown" ? "secondary" : "ghost"}
+          onClick={() => setView("markdown")}
+        >
+          Markdown
+        </Button>
+      </div>
+      {view === "structured" ? (
+        <StructuredFeedback feedback={feedback} />
+      ) : (
+        <MarkdownRenderer>
+          {formatQuestionFeedbackAsMarkdown(feedback)}
+        </MarkdownRenderer>
+      )}
+    </div>
+  )
+}
+
+function StructuredFeedback({
+  feedback,
+}: {
+  feedback: DeepPartial<AiQuestionFeedback>
+}) {
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold flex items-center gap-2">
+          Feedback
+          {feedback.rating == null ? (
+            <Skeleton className="w-12" />
+          ) : (
+            <QuestionRatingBadge rating={feedback.rating} />
+          )}
+        </h2>
+        {feedback.summary == null ? (
+          <span className="space-y-2">
+            <Skeleton />
+            <Skeleton className="w-3/4" />
+          </span>
+        ) : (
+          <p className="text-muted-foreground">{feedback.summary}</p>
+        )}
+      </div>
+
+      <FeedbackList
+        title="Strengths"
+        items={feedback.strengths}
+        icon={<CheckCircleIcon className="size-4 text-primary" />}
+        className="bg-primary/10 border border-primary/50"
+      />
+      <FeedbackList
+        title="Gaps"
+        items={feedback.gaps}
+        icon={<AlertCircleIcon className="size-4 text-warning" />}
+        className="bg-warning/10 border border-warning/40"
+      />
+
+      {feedback.star != null && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold">STAR Breakdown</h3>
+          {starComponents.map(component => {
+            const item = feedback.star?.[component]
+            if (item == null) return null
+
+            return (
+              <ScoreBar
+                key={component}
+                label={formatStarComponent(component)}
+                score={item.score}
+                comment={item.comment}
+              />
+            )
+          })}
+        </div>
+      )}
+
+      {feedback.rubric != null && feedback.rubric.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold">Rubric</h3>
+          {feedback.rubric.map((item, index) => {
+            if (item?.criterion == null) return null
+
+            return (
+              <ScoreBar
+                key={index}
+                label={item.criterion}
+                score={item.score}
+                comment={item.comment}
+              />
+            )
+          })}
+        </div>
+      )}
+
+      {feedback.referenceAnswer != null && (
+        <div className="space-y-2 border-t pt-6">
+          <h3 className="text-lg font-semibold">Correct Answer</h3>
+          <MarkdownRenderer>{feedback.referenceAnswer}</MarkdownRenderer>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ScoreBar({
+  label,
+  score,
+  comment,
+}: {
+  label: string
+  score: number | undefined
+  comment: string | undefined
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between gap-4">
+        <span>{label}</span>
+        <span className="tabular-nums text-muted-foreground">
+          {score == null ? "-" : `${score}/10`}
+        </span>
+      </div>
+      <div className="h-2 rounded bg-muted overflow-hidden">
+        <div
+          className="h-full bg-primary transition-[width]"
+          style={{ width: `${(score ?? 0) * 10}%` }}
+        />
+      </div>
+      {comment && <p className="text-sm text-muted-foreground">{comment}</p>}
+    </div>
+  )
+}
+
+function FeedbackList({
+  title,
+  items,
+  icon,
+  className,
+}: {
+  title: string
+  items: (string | undefined)[] | undefined
+  icon: ReactNode
+  className: string
+}) {
+  if (items == null || items.length === 0) return null
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold">{title}</h3>
+      {items.map((item, index) => {
+        if (item == null) return null
+
+        return (
+          <div
+            key={index}
+            className={cn(
+              "flex items-baseline gap-3 pl-3 pr-5 py-3 rounded-lg",
+              className
+            )}
+          >
+            <div>{icon}</div>
+            <div>{item}</div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
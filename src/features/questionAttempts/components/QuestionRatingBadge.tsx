@@ -0,0 +1,9 @@
+import { Badge } from "@/components/ui/badge"
+
+export function QuestionRatingBadge({ rating }: { rating: number | null }) {
+  if (rating == null) return <Badge variant="outline">Unrated</Badge>
+
+  if (rating >= 8) return <Badge>{rating}/10</Badge>
+  if (rating >= 5) return <Badge variant="warning">{rating}/10</Badge>
+  return <Badge variant="destructive">{rating}/10</Badge>
+}
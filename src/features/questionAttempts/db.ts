@@ -0,0 +1,20 @@
+import { db } from "@/drizzle/db"
+import { QuestionAttemptTable } from "@/drizzle/schema"
+import { revalidateQuestionAttemptCache } from "./dbCache"
+
+export async function insertQuestionAttempt(
+  attempt: typeof QuestionAttemptTable.$inferInsert,
+  { jobInfoId }: { jobInfoId: string }
+) {
+  const [newAttempt] = await db
+    .insert(QuestionAttemptTable)
+    .values(attempt)
+    .returning({
+      id: QuestionAttemptTable.id,
+      questionId: QuestionAttemptTable.questionId,
+    })
+
+  revalidateQuestionAttemptCache({ ...newAttempt, jobInfoId })
+
+  return newAttempt
+}
@@ -0,0 +1,38 @@
+import {
+  getGlobalTag,
+  getIdTag,
+  getJobInfoTag,
+  getQuestionTag,
+} from "@/lib/dataCache"
+import { revalidateTag } from "next/cache"
+
+export function getQuestionAttemptGlobalTag() {
+  return getGlobalTag("questionAttempts")
+}
+
+export function getQuestionAttemptJobInfoTag(jobInfoId: string) {
+  return getJobInfoTag("questionAttempts", jobInfoId)
+}
+
+export function getQuestionAttemptQuestionTag(questionId: string) {
+  return getQuestionTag("questionAttempts", questionId)
+}
+
+export function getQuestionAttemptIdTag(id: string) {
+  return getIdTag("questionAttempts", id)
+}
+
+export function revalidateQuestionAttemptCache({
+  id,
+  questionId,
+  jobInfoId,
+}: {
+  id: string
+  questionId: string
+  jobInfoId: string
+}) {
+  revalidateTag(getQuestionAttemptGlobalTag())
+  revalidateTag(getQuestionAttemptJobInfoTag(jobInfoId))
+  revalidateTag(getQuestionAttemptQuestionTag(questionId))
+  revalidateTag(getQuestionAttemptIdTag(id))
+}
@@ -0,0 +1,72 @@
+import {
+  AiQuestionFeedback,
+  StarComponent,
+  starComponents,
+} from "@/services/ai/questionSchemas"
+import { DeepPartial } from "ai"
+
+export function formatQuestionFeedbackAsMarkdown(
+  feedback: DeepPartial<AiQuestionFeedback>
+) {
+  const sections: string[] = []
+
+  if (feedback.rating != null) {
+    sections.push(`## Feedback (Rating: ${feedback.rating}/10)`)
+  }
+  if (feedback.summary != null) sections.push(feedback.summary)
+
+  const strengths = feedback.strengths?.filter(s => s != null) ?? []
+  if (strengths.length > 0) {
+    sections.push(`### Strengths\n${strengths.map(s => `- ${s}`).join("\n")}`)
+  }
+
+  const gaps = feedback.gaps?.filter(g => g != null) ?? []
+  if (gaps.length > 0) {
+    sections.push(`### Gaps\n${gaps.map(g => `- ${g}`).join("\n")}`)
+  }
+
+  const rubric = feedback.rubric?.filter(r => r?.criterion != null) ?? []
+  if (rubric.length > 0) {
+    const items = rubric.map(
+      r =>
+        `- **${r?.criterion}**${r?.score == null ? "" : ` (${r.score}/10)`}${
+          r?.comment == null ? "" : `: ${r.comment}`
+        }`
+    )
+    sections.push(`### Rubric\n${items.join("\n")}`)
+  }
+
+  const star = feedback.star
+  if (star != null) {
+    const items = starComponents.flatMap(component => {
+      const item = star[component]
+      if (item == null) return []
+
+      return `- **${formatStarComponent(component)}**${
+        item.score == null ? "" : ` (${item.score}/10)`
+      }${item.comment == null ? "" : `: ${item.comment}`}`
+    })
+    if (items.length > 0) sections.push(`### STAR\n${items.join("\n")}`)
+  }
+
+  if (feedback.referenceAnswer != null) {
+    sections.push(`---\n## Correct Answer\n${feedback.referenceAnswer}`)
+  }
+
+  return sections.join("\n\n")
+}
+
+export function formatStarComponent(component: StarComponent) {
+  switch (component) {
+    case "situation":
+      return "Situation"
+    case "task":
+      return "Task"
+    case "action":
+      return "Action"
+    case "result":
+      return "Result"
+    default:
+      throw new Error(`Unknown STAR component: ${component satisfies never}`)
+  }
+}
@@ -0,0 +1,114 @@
+import { db } from "@/drizzle/db"
+import { QuestionHintTable, QuestionTable } from "@/drizzle/schema"
+import { and, asc, count, eq, inArray, isNotNull, isNull } from "drizzle-orm"
+import { revalidateQuestionHintCache } from "./dbCache"
+
+/**
+ * Saves a placeholder for a hint that is about to be generated, unless the
+ * try already has `maxHints` hints. The question is locked while counting so
+ * parallel requests can't go past the limit.
+ */
+export async function reserveQuestionHint(
+  { questionId, practiceId }: { questionId: string; practiceId: string },
+  { maxHints }: { maxHints: number }
+) {
+  const newHint = await db.transaction(async tx => {
+    await tx
+      .select({ id: QuestionTable.id })
+      .from(QuestionTable)
+      .where(eq(QuestionTable.id, questionId))
+      .for("update")
+
+    const [{ hintCount }] = await tx
+      .select({ hintCount: count() })
+      .from(QuestionHintTable)
+      .where(getUnusedHintsWhere(questionId, practiceId))
+    if (hintCount >= maxHints) return null
+
+    const [newHint] = await tx
+      .insert(QuestionHintTable)
+      .values({ questionId, practiceId })
+      .returning({
+        id: QuestionHintTable.id,
+        questionId: QuestionHintTable.questionId,
+      })
+
+    return newHint
+  })
+
+  if (newHint != null) revalidateQuestionHintCache(newHint)
+
+  return newHint
+}
+
+export async function updateQuestionHint(
+  id: string,
+  hint: Partial<typeof QuestionHintTable.$inferInsert>
+) {
+  const [updatedHint] = await db
+    .update(QuestionHintTable)
+    .set(hint)
+    .where(eq(QuestionHintTable.id, id))
+    .returning({
+      id: QuestionHintTable.id,
+      questionId: QuestionHintTable.questionId,
+    })
+
+  revalidateQuestionHintCache(updatedHint)
+
+  return updatedHint
+}
+
+export async function deleteQuestionHint(id: string) {
+  const [deletedHint] = await db
+    .delete(QuestionHintTable)
+    .where(eq(QuestionHintTable.id, id))
+    .returning({
+      id: QuestionHintTable.id,
+      questionId: QuestionHintTable.questionId,
+    })
+
+  if (deletedHint != null) revalidateQuestionHintCache(deletedHint)
+}
+
+/**
+ * Hints given during a try at a question that have not been counted towards
+ * an attempt yet, in the order they were given. Hints that are still being
+ * generated are left out.
+ */
+export function getUnusedQuestionHints(questionId: string, practiceId: string) {
+  return db.query.QuestionHintTable.findMany({
+    columns: { id: true, text: true },
+    where: and(
+      getUnusedHintsWhere(questionId, practiceId),
+      isNotNull(QuestionHintTable.text)
+    ),
+    orderBy: asc(QuestionHintTable.createdAt),
+  })
+}
+
+export async function markQuestionHintsUsed(
+  hintIds: string[],
+  attemptId: string
+) {
+  if (hintIds.length === 0) return
+
+  const updatedHints = await db
+    .update(QuestionHintTable)
+    .set({ attemptId })
+    .where(inArray(QuestionHintTable.id, hintIds))
+    .returning({
+      id: QuestionHintTable.id,
+      questionId: QuestionHintTable.questionId,
+    })
+
+  updatedHints.forEach(hint => revalidateQuestionHintCache(hint))
+}
+
+function getUnusedHintsWhere(questionId: string, practiceId: string) {
+  return and(
+    eq(QuestionHintTable.questionId, questionId),
+    eq(QuestionHintTable.practiceId, practiceId),
+    isNull(QuestionHintTable.attemptId)
+  )
+}
@@ -0,0 +1,26 @@
+import { getGlobalTag, getIdTag, getQuestionTag } from "@/lib/dataCache"
+import { revalidateTag } from "next/cache"
+
+export function getQuestionHintGlobalTag() {
+  return getGlobalTag("questionHints")
+}
+
+export function getQuestionHintQuestionTag(questionId: string) {
+  return getQuestionTag("questionHints", questionId)
+}
+
+export function getQuestionHintIdTag(id: string) {
+  return getIdTag("questionHints", id)
+}
+
+export function revalidateQuestionHintCache({
+  id,
+  questionId,
+}: {
+  id: string
+  questionId: string
+}) {
+  revalidateTag(getQuestionHintGlobalTag())
+  revalidateTag(getQuestionHintQuestionTag(questionId))
+  revalidateTag(getQuestionHintIdTag(id))
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { BackLink } from "@/components/BackLink"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { LoadingSwap } from "@/components/ui/loading-swap"
+import { QuestionDifficulty } from "@/drizzle/schema"
+import { QuestionRatingBadge } from "@/features/questionAttempts/components/QuestionRatingBadge"
+import { useCodeRunner } from "@/features/questions/codeRunner/useCodeRunner"
+import { PublicCodingSpec } from "@/features/questions/codingSpec"
+import { QuestionContainer } from "@/features/questions/components/QuestionContainer"
+import { formatQuestionDifficulty } from "@/features/questions/formatters"
+import { errorToast } from "@/lib/errorToast"
+import { aiQuestionFeedbackSchema } from "@/services/ai/questionSchemas"
+import { experimental_useObject as useObject } from "@ai-sdk/react"
+import { CheckCircleIcon, FlaskConicalIcon } from "lucide-react"
+import Link from "next/link"
+import { useState } from "react"
+
+type Status = "awaiting-answer" | "reviewed"
+
+export function ReviewSession({
+  questions,
+  backHref,
+  backLabel,
+}: {
+  questions: {
+    id: string
+    text: string
+    difficulty: QuestionDifficulty
+    codingSpec: PublicCodingSpec | null
+    jobInfoName?: string
+    review: { lastRating: number }
+  }[]
+  backHref: string
+  backLabel: string
+}) {
+  const [index, setIndex] = useState(0)
+  const [status, setStatus] = useState<Status>("awaiting-answer")
+  const [answer, setAnswer] = useState<string | null>(
+    questions.at(0)?.codingSpec?.starterCode ?? null
+  )
+  const [isFeedbackVisible, setIsFeedbackVisible] = useState(false)
+  const codeRunner = useCodeRunner()
+
+  const {
+    submit: generateFeedback,
+    object: feedback,
+    isLoading: isGeneratingFeedback,
+  } = useObject({
+    api: "/api/ai/questions/generate-feedback",
+    schema: aiQuestionFeedbackSchema,
+    onFinish: ({ error }) => {
+      if (error != null) errorToast("Failed to generate feedback")
+      setStatus("reviewed")
+    },
+    onError: error => {
+      errorToast(error.message)
+    },
+  })
+
+  const question = questions.at(index)
+
+  function next() {
+    setIndex(index + 1)
+    setStatus("awaiting-answer")
+    setAnswer(questions.at(index + 1)?.codingSpec?.starterCode ?? null)
+    setIsFeedbackVisible(false)
+    codeRunner.reset()
+  }
+
+  function runTests() {
+    if (question?.codingSpec == null) return Promise.resolve(null)
+
+    return codeRunner.runTests(question.codingSpec, answer ?? "")
+  }
+
+  if (question == null) {
+    return (
+      <div className="container my-4 space-y-4">
+        <BackLink href={backHref}>{backLabel}</BackLink>
+        <div className="flex flex-col items-center gap-4 text-center py-12">
+          <CheckCircleIcon className="size-16 text-primary" />
+          <h1 className="text-3xl md:text-4xl">You&apos;re all caught up</h1>
+          <p className="text-muted-foreground">
+            {questions.length === 0
+              ? "No questions are due for review right now."
+              : `You reviewed ${questions.length} ${
+                  questions.length === 1 ? "question" : "questions"
+                }. Come back later for more.`}
+          </p>
+          <Button asChild>
+            <Link href={backHref}>Back to {backLabel}</Link>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const isAnswerEmpty = answer == null || answer.trim() === ""
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full mx-w-[2000px] mx-auto flex-grow h-screen-header">
+      <div className="container flex gap-4 mt-4 items-center justify-between">
+        <div className="flex-grow basis-0">
+          <BackLink href={backHref}>{backLabel}</BackLink>
+        </div>
+        <div className="flex gap-2">
+          {status === "awaiting-answer" ? (
+            <>
+              <Button
+                onClick={next}
+                disabled={isGeneratingFeedback}
+                variant="outline"
+                size="sm"
+              >
+                <LoadingSwap isLoading={isGeneratingFeedback}>Skip</LoadingSwap>
+              </Button>
+              {question.codingSpec != null && (
+                <Button
+                  onClick={runTests}
+                  disabled={
+                    isAnswerEmpty ||
+                    isGeneratingFeedback ||
+                    codeRunner.isRunning
+                  }
+                  variant="outline"
+                  size="sm"
+                >
+                  <LoadingSwap
+                    isLoading={codeRunner.isRunning}
+                    className="inline-flex items-center gap-2"
+                  >
+                    <FlaskConicalIcon />
+                    Run Tests
+                  </LoadingSwap>
+                </Button>
+              )}
+              <Button
+                onClick={async () => {
+                  if (isAnswerEmpty) return
+
+                  const testOutputs = await runTests()
+                  setIsFeedbackVisible(true)
+                  generateFeedback({
+                    prompt: answer.trim(),
+                    questionId: question.id,
+                    testOutputs: testOutputs ?? undefined,
+                  })
+                }}
+                disabled={
+                  isAnswerEmpty || isGeneratingFeedback || codeRunner.isRunning
+                }
+                size="sm"
+              >
+                <LoadingSwap isLoading={isGeneratingFeedback}>
+                  Answer
+                </LoadingSwap>
+              </Button>
+            </>
+          ) : (
+            <Button onClick={next} size="sm">
+              {index + 1 === questions.length ? "Finish" : "Next Question"}
+            </Button>
+          )}
+        </div>
+        <div className="flex-grow basis-0 flex justify-end items-center gap-2 text-sm text-muted-foreground">
+          {question.jobInfoName && (
+            <Badge variant="outline">{question.jobInfoName}</Badge>
+          )}
+          <Badge variant="secondary">
+            {formatQuestionDifficulty(question.difficulty)}
+          </Badge>
+          <span className="flex items-center gap-1">
+            Last: <QuestionRatingBadge rating={question.review.lastRating} />
+          </span>
+          <span className="tabular-nums">
+            {index + 1}/{questions.length}
+          </span>
+        </div>
+      </div>
+      <QuestionContainer
+        question={question.text}
+        feedback={isFeedbackVisible ? feedback : undefined}
+        answer={answer}
+        isAnswerDisabled={status !== "awaiting-answer"}
+        setAnswer={setAnswer}
+        codeTests={
+          question.codingSpec == null
+            ? undefined
+            : { results: codeRunner.results, error: codeRunner.error }
+        }
+      />
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { db } from "@/drizzle/db"
+import { QuestionReviewTable } from "@/drizzle/schema"
+import { eq } from "drizzle-orm"
+import { revalidateQuestionReviewCache } from "./dbCache"
+import { scheduleQuestionReview } from "./scheduler"
+
+export async function recordQuestionReview(
+  questionId: string,
+  rating: number,
+  { jobInfoId, userId }: { jobInfoId: string; userId: string }
+) {
+  const existingReview = await db.query.QuestionReviewTable.findFirst({
+    where: eq(QuestionReviewTable.questionId, questionId),
+  })
+  const review = scheduleQuestionReview(existingReview, rating)
+
+  const [newReview] = await db
+    .insert(QuestionReviewTable)
+    .values({ questionId, ...review })
+    .onConflictDoUpdate({
+      target: [QuestionReviewTable.questionId],
+      set: review,
+    })
+    .returning({ id: QuestionReviewTable.id })
+
+  revalidateQuestionReviewCache({ id: newReview.id, jobInfoId, userId })
+
+  return newReview
+}
@@ -0,0 +1,38 @@
+import {
+  getGlobalTag,
+  getIdTag,
+  getJobInfoTag,
+  getUserTag,
+} from "@/lib/dataCache"
+import { revalidateTag } from "next/cache"
+
+export function getQuestionReviewGlobalTag() {
+  return getGlobalTag("questionReviews")
+}
+
+export function getQuestionReviewUserTag(userId: string) {
+  return getUserTag("questionReviews", userId)
+}
+
+export function getQuestionReviewJobInfoTag(jobInfoId: string) {
+  return getJobInfoTag("questionReviews", jobInfoId)
+}
+
+export function getQuestionReviewIdTag(id: string) {
+  return getIdTag("questionReviews", id)
+}
+
+export function revalidateQuestionReviewCache({
+  id,
+  jobInfoId,
+  userId,
+}: {
+  id: string
+  jobInfoId: string
+  userId: string
+}) {
+  revalidateTag(getQuestionReviewGlobalTag())
+  revalidateTag(getQuestionReviewUserTag(userId))
+  revalidateTag(getQuestionReviewJobInfoTag(jobInfoId))
+  revalidateTag(getQuestionReviewIdTag(id))
+}
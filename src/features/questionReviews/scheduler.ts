@@ -0,0 +1,72 @@
+import { QuestionReviewTable } from "@/drizzle/schema"
+
+const DEFAULT_EASE_FACTOR = 2.5
+const MIN_EASE_FACTOR = 1.3
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+
+type ReviewState = Pick<
+  typeof QuestionReviewTable.$inferSelect,
+  "easeFactor" | "intervalDays" | "repetitions"
+>
+
+/**
+ * Schedules the next review of a question using the SM-2 algorithm. The 1-10
+ * answer rating is mapped onto SM-2's 0-5 quality scale, so any rating of 4 or
+ * below resets the question to be reviewed again the next day.
+ */
+export function scheduleQuestionReview(
+  previous: ReviewState | null | undefined,
+  rating: number,
+  now = new Date()
+) {
+  const quality = Math.max(0, Math.min(5, Math.round(rating / 2)))
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    (previous?.easeFactor ?? DEFAULT_EASE_FACTOR) +
+      (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  )
+
+  let repetitions: number
+  let intervalDays: number
+  if (quality < 3) {
+    repetitions = 0
+    intervalDays = 1
+  } else {
+    repetitions = (previous?.repetitions ?? 0) + 1
+    if (repetitions === 1) {
+      intervalDays = 1
+    } else if (repetitions === 2) {
+      intervalDays = 6
+    } else {
+      intervalDays = Math.round((previous?.intervalDays ?? 1) * easeFactor)
+    }
+  }
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    lastRating: rating,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_IN_MS),
+  }
+}
+
+export function getDueQuestions<
+  T extends {
+    review: Pick<
+      typeof QuestionReviewTable.$inferSelect,
+      "dueAt" | "lastRating"
+    > | null
+  },
+>(questions: T[], now = new Date()) {
+  return questions
+    .filter(
+      (question): question is T & { review: NonNullable<T["review"]> } =>
+        question.review != null && question.review.dueAt <= now
+    )
+    .sort(
+      (a, b) =>
+        a.review.dueAt.getTime() - b.review.dueAt.getTime() ||
+        a.review.lastRating - b.review.lastRating
+    )
+}
@@ -0,0 +1,104 @@
+"use server"
+
+import z from "zod"
+import { questionSessionSchema } from "./schemas"
+import { getCurrentUser } from "@/services/clerk/lib/getCurrentUser"
+import { insertQuestionSession, updateQuestionSession } from "./db"
+import { redirect } from "next/navigation"
+import { db } from "@/drizzle/db"
+import { and, eq } from "drizzle-orm"
+import { JobInfoTable, QuestionSessionTable } from "@/drizzle/schema"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import { getJobInfoIdTag } from "../jobInfos/dbCache"
+import { getQuestionSessionIdTag } from "./dbCache"
+
+export async function createQuestionSession(
+  jobInfoId: string,
+  unsafeData: z.infer<typeof questionSessionSchema>
+) {
+  const { userId } = await getCurrentUser()
+  if (userId == null) {
+    return {
+      error: true,
+      message: "You don't have permission to do this",
+    }
+  }
+
+  const { success, data } = questionSessionSchema.safeParse(unsafeData)
+  if (!success) {
+    return {
+      error: true,
+      message: "Invalid session data",
+    }
+  }
+
+  const jobInfo = await getJobInfo(jobInfoId, userId)
+  if (jobInfo == null) {
+    return {
+      error: true,
+      message: "You don't have permission to do this",
+    }
+  }
+
+  const session = await insertQuestionSession({
+    jobInfoId,
+    kind: data.kind,
+    timeLimitSeconds: data.timeLimitMinutes * 60,
+    difficulties: [
+      ...Array<"easy">(data.easyCount).fill("easy"),
+      ...Array<"medium">(data.mediumCount).fill("medium"),
+      ...Array<"hard">(data.hardCount).fill("hard"),
+    ],
+  })
+
+  redirect(`/app/job-infos/${jobInfoId}/questions/sessions/${session.id}`)
+}
+
+export async function completeQuestionSession(id: string) {
+  const { userId } = await getCurrentUser()
+  if (userId == null) {
+    return {
+      error: true,
+      message: "You don't have permission to do this",
+    }
+  }
+
+  const session = await getQuestionSession(id, userId)
+  if (session == null) {
+    return {
+      error: true,
+      message: "You don't have permission to do this",
+    }
+  }
+
+  if (session.completedAt == null) {
+    await updateQuestionSession(id, { completedAt: new Date() })
+  }
+
+  redirect(`/app/job-infos/${session.jobInfoId}/questions/sessions/${id}`)
+}
+
+async function getJobInfo(id: string, userId: string) {
+  "use cache"
+  cacheTag(getJobInfoIdTag(id))
+
+  return db.query.JobInfoTable.findFirst({
+    where: and(eq(JobInfoTable.id, id), eq(JobInfoTable.userId, userId)),
+  })
+}
+
+async function getQuestionSession(id: string, userId: string) {
+  "use cache"
+  cacheTag(getQuestionSessionIdTag(id))
+
+  const session = await db.query.QuestionSessionTable.findFirst({
+    where: eq(QuestionSessionTable.id, id),
+    with: { jobInfo: { columns: { id: true, userId: true } } },
+  })
+
+  if (session == null) return null
+  cacheTag(getJobInfoIdTag(session.jobInfo.id))
+
+  if (session.jobInfo.userId !== userId) return null
+  return session
+}
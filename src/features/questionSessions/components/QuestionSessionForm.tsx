@@ -0,0 +1,157 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import { z } from "zod"
+import { questionKinds } from "@/drizzle/schema"
+import { Button } from "@/components/ui/button"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { LoadingSwap } from "@/components/ui/loading-swap"
+import { formatQuestionKind } from "@/features/questions/formatters"
+import { toast } from "sonner"
+import { questionSessionSchema, questionSessionTimeLimits } from "../schemas"
+import { createQuestionSession } from "../actions"
+
+type QuestionSessionFormData = z.infer<typeof questionSessionSchema>
+
+const difficultyCountFields = [
+  { name: "easyCount", label: "Easy Questions" },
+  { name: "mediumCount", label: "Medium Questions" },
+  { name: "hardCount", label: "Hard Questions" },
+] as const
+
+export function QuestionSessionForm({ jobInfoId }: { jobInfoId: string }) {
+  const form = useForm<QuestionSessionFormData>({
+    resolver: zodResolver(questionSessionSchema),
+    defaultValues: {
+      easyCount: 1,
+      mediumCount: 2,
+      hardCount: 1,
+      kind: "technical",
+      timeLimitMinutes: 5,
+    },
+  })
+
+  async function onSubmit(values: QuestionSessionFormData) {
+    const res = await createQuestionSession(jobInfoId, values)
+
+    if (res.error) {
+      toast.error(res.message)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+          {difficultyCountFields.map(({ name, label }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      min={0}
+                      onChange={e => field.onChange(e.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 items-start">
+          <FormField
+            control={form.control}
+            name="kind"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Question Kind</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {questionKinds.map(kind => (
+                      <SelectItem key={kind} value={kind}>
+                        {formatQuestionKind(kind)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="timeLimitMinutes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Time Limit</FormLabel>
+                <Select
+                  onValueChange={value => field.onChange(Number(value))}
+                  value={field.value.toString()}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {questionSessionTimeLimits.map(minutes => (
+                      <SelectItem key={minutes} value={minutes.toString()}>
+                        {minutes} {minutes === 1 ? "minute" : "minutes"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Per question. Your answer is submitted automatically when the
+                  time runs out.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Button
+          disabled={form.formState.isSubmitting}
+          type="submit"
+          className="w-full"
+        >
+          <LoadingSwap isLoading={form.formState.isSubmitting}>
+            Start Session
+          </LoadingSwap>
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,256 @@
+"use client"
+
+import { BackLink } from "@/components/BackLink"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { LoadingSwap } from "@/components/ui/loading-swap"
+import { QuestionSessionTable } from "@/drizzle/schema"
+import { QuestionContainer } from "@/features/questions/components/QuestionContainer"
+import { formatQuestionDifficulty } from "@/features/questions/formatters"
+import { errorToast } from "@/lib/errorToast"
+import { formatDuration } from "@/lib/formatters"
+import { aiQuestionFeedbackSchema } from "@/services/ai/questionSchemas"
+import {
+  experimental_useObject as useObject,
+  useCompletion,
+} from "@ai-sdk/react"
+import { RotateCcwIcon, TimerIcon } from "lucide-react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import z from "zod"
+import { completeQuestionSession } from "../actions"
+
+type Status =
+  | "generating"
+  | "generation-failed"
+  | "awaiting-answer"
+  | "reviewing"
+
+const NO_ANSWER = "(No answer was given before the time limit.)"
+const LOW_TIME_SECONDS = 30
+
+export function QuestionSessionRunner({
+  session,
+  answeredCount,
+}: {
+  session: Pick<
+    typeof QuestionSessionTable.$inferSelect,
+    "id" | "jobInfoId" | "difficulties" | "kind" | "timeLimitSeconds"
+  >
+  answeredCount: number
+}) {
+  const [index, setIndex] = useState(answeredCount)
+  const [status, setStatus] = useState<Status>(
+    answeredCount >= session.difficulties.length ? "reviewing" : "generating"
+  )
+  const [answer, setAnswer] = useState<string | null>(null)
+  const [startedAt, setStartedAt] = useState<number | null>(null)
+  const [remainingSeconds, setRemainingSeconds] = useState(
+    session.timeLimitSeconds
+  )
+  const [isFeedbackVisible, setIsFeedbackVisible] = useState(false)
+  const [isCompleting, setIsCompleting] = useState(false)
+  const requestedIndexRef = useRef<number | null>(null)
+
+  const {
+    complete: generateQuestion,
+    completion: question,
+    isLoading: isGeneratingQuestion,
+    data,
+  } = useCompletion({
+    api: "/api/ai/questions/generate-question",
+    onFinish: () => {
+      setStatus("awaiting-answer")
+      setStartedAt(Date.now())
+      setRemainingSeconds(session.timeLimitSeconds)
+    },
+    onError: error => {
+      setStatus("generation-failed")
+      errorToast(error.message)
+    },
+  })
+
+  const {
+    submit: generateFeedback,
+    object: feedback,
+    isLoading: isGeneratingFeedback,
+  } = useObject({
+    api: "/api/ai/questions/generate-feedback",
+    schema: aiQuestionFeedbackSchema,
+    onFinish: ({ error }) => {
+      if (error != null) errorToast("Failed to generate feedback")
+      setStatus("reviewing")
+    },
+    onError: error => {
+      errorToast(error.message)
+    },
+  })
+
+  const questionId = useMemo(() => {
+    const item = data?.at(-1)
+    if (item == null) return null
+    const parsed = z.object({ questionId: z.string() }).safeParse(item)
+    if (!parsed.success) return null
+
+    return parsed.data.questionId
+  }, [data])
+
+  const difficulty = session.difficulties.at(index)
+
+  useEffect(() => {
+    if (difficulty == null || requestedIndexRef.current === index) return
+
+    requestedIndexRef.current = index
+    generateQuestion(difficulty, {
+      body: { jobInfoId: session.jobInfoId, kind: session.kind },
+    })
+  }, [index, difficulty, generateQuestion, session.jobInfoId, session.kind])
+
+  function retryQuestion() {
+    if (difficulty == null) return
+
+    setStatus("generating")
+    generateQuestion(difficulty, {
+      body: { jobInfoId: session.jobInfoId, kind: session.kind },
+    })
+  }
+
+  function submitAnswer() {
+    if (questionId == null || startedAt == null || isGeneratingFeedback) return
+
+    setIsFeedbackVisible(true)
+    generateFeedback({
+      prompt: answer?.trim() || NO_ANSWER,
+      questionId,
+      sessionId: session.id,
+      timeSpentSeconds: Math.min(
+        session.timeLimitSeconds,
+        Math.round((Date.now() - startedAt) / 1000)
+      ),
+    })
+  }
+
+  // Keeps the timer effect from restarting on every keystroke while still
+  // submitting the latest answer when the time runs out.
+  const submitAnswerRef = useRef(submitAnswer)
+  useEffect(() => {
+    submitAnswerRef.current = submitAnswer
+  })
+
+  useEffect(() => {
+    if (status !== "awaiting-answer" || startedAt == null) return
+
+    const interval = setInterval(() => {
+      const remaining = Math.max(
+        0,
+        session.timeLimitSeconds - Math.floor((Date.now() - startedAt) / 1000)
+      )
+      setRemainingSeconds(remaining)
+
+      if (remaining === 0) {
+        clearInterval(interval)
+        submitAnswerRef.current()
+      }
+    }, 250)
+
+    return () => clearInterval(interval)
+  }, [status, startedAt, session.timeLimitSeconds])
+
+  async function completeSession() {
+    setIsCompleting(true)
+    const res = await completeQuestionSession(session.id)
+    if (res?.error) {
+      errorToast(res.message)
+      setIsCompleting(false)
+    }
+  }
+
+  function nextQuestion() {
+    if (index + 1 >= session.difficulties.length) {
+      completeSession()
+      return
+    }
+
+    setIndex(index + 1)
+    setStatus("generating")
+    setAnswer(null)
+    setStartedAt(null)
+    setIsFeedbackVisible(false)
+  }
+
+  const isLoading = isGeneratingQuestion || isGeneratingFeedback || isCompleting
+  const isLastQuestion = index + 1 >= session.difficulties.length
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full mx-w-[2000px] mx-auto flex-grow h-screen-header">
+      <div className="container flex gap-4 mt-4 items-center justify-between">
+        <div className="flex-grow basis-0">
+          <BackLink
+            href={`/app/job-infos/${session.jobInfoId}/questions/sessions`}
+          >
+            Practice Sessions
+          </BackLink>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            onClick={completeSession}
+            disabled={isLoading}
+            variant="outline"
+            size="sm"
+          >
+            <LoadingSwap isLoading={isCompleting}>End Session</LoadingSwap>
+          </Button>
+          {status === "reviewing" ? (
+            <Button onClick={nextQuestion} disabled={isLoading} size="sm">
+              <LoadingSwap isLoading={isCompleting}>
+                {isLastQuestion ? "Finish" : "Next Question"}
+              </LoadingSwap>
+            </Button>
+          ) : status === "generation-failed" ? (
+            <Button onClick={retryQuestion} disabled={isLoading} size="sm">
+              <RotateCcwIcon />
+              Retry Question
+            </Button>
+          ) : (
+            <Button
+              onClick={submitAnswer}
+              disabled={status !== "awaiting-answer" || isLoading}
+              size="sm"
+            >
+              <LoadingSwap isLoading={isLoading}>Answer</LoadingSwap>
+            </Button>
+          )}
+        </div>
+        <div className="flex-grow basis-0 flex justify-end items-center gap-2 text-sm">
+          {difficulty != null && (
+            <Badge variant="secondary">
+              {formatQuestionDifficulty(difficulty)}
+            </Badge>
+          )}
+          <Badge
+            variant={
+              status === "awaiting-answer" &&
+              remainingSeconds <= LOW_TIME_SECONDS
+                ? "destructive"
+                : "outline"
+            }
+            className="tabular-nums"
+          >
+            <TimerIcon />
+            {formatDuration(remainingSeconds)}
+          </Badge>
+          <span className="tabular-nums text-muted-foreground">
+            {Math.min(index + 1, session.difficulties.length)}/
+            {session.difficulties.length}
+          </span>
+        </div>
+      </div>
+      <QuestionContainer
+        question={question}
+        feedback={isFeedbackVisible ? feedback : undefined}
+        answer={answer}
+        isAnswerDisabled={status !== "awaiting-answer" || isGeneratingFeedback}
+        setAnswer={setAnswer}
+      />
+    </div>
+  )
+}
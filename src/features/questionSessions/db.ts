@@ -0,0 +1,38 @@
+import { db } from "@/drizzle/db"
+import { QuestionSessionTable } from "@/drizzle/schema"
+import { eq } from "drizzle-orm"
+import { revalidateQuestionSessionCache } from "./dbCache"
+
+export async function insertQuestionSession(
+  session: typeof QuestionSessionTable.$inferInsert
+) {
+  const [newSession] = await db
+    .insert(QuestionSessionTable)
+    .values(session)
+    .returning({
+      id: QuestionSessionTable.id,
+      jobInfoId: QuestionSessionTable.jobInfoId,
+    })
+
+  revalidateQuestionSessionCache(newSession)
+
+  return newSession
+}
+
+export async function updateQuestionSession(
+  id: string,
+  session: Partial<typeof QuestionSessionTable.$inferInsert>
+) {
+  const [updatedSession] = await db
+    .update(QuestionSessionTable)
+    .set(session)
+    .where(eq(QuestionSessionTable.id, id))
+    .returning({
+      id: QuestionSessionTable.id,
+      jobInfoId: QuestionSessionTable.jobInfoId,
+    })
+
+  revalidateQuestionSessionCache(updatedSession)
+
+  return updatedSession
+}
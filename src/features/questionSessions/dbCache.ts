@@ -0,0 +1,26 @@
+import { getGlobalTag, getIdTag, getJobInfoTag } from "@/lib/dataCache"
+import { revalidateTag } from "next/cache"
+
+export function getQuestionSessionGlobalTag() {
+  return getGlobalTag("questionSessions")
+}
+
+export function getQuestionSessionJobInfoTag(jobInfoId: string) {
+  return getJobInfoTag("questionSessions", jobInfoId)
+}
+
+export function getQuestionSessionIdTag(id: string) {
+  return getIdTag("questionSessions", id)
+}
+
+export function revalidateQuestionSessionCache({
+  id,
+  jobInfoId,
+}: {
+  id: string
+  jobInfoId: string
+}) {
+  revalidateTag(getQuestionSessionGlobalTag())
+  revalidateTag(getQuestionSessionJobInfoTag(jobInfoId))
+  revalidateTag(getQuestionSessionIdTag(id))
+}
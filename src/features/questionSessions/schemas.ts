@@ -0,0 +1,28 @@
+import { questionKinds } from "@/drizzle/schema"
+import z from "zod"
+
+export const MAX_SESSION_QUESTIONS = 10
+export const questionSessionTimeLimits = [1, 2, 3, 5, 10, 15] as const
+
+export const questionSessionSchema = z
+  .object({
+    easyCount: z.number().int().min(0).max(MAX_SESSION_QUESTIONS),
+    mediumCount: z.number().int().min(0).max(MAX_SESSION_QUESTIONS),
+    hardCount: z.number().int().min(0).max(MAX_SESSION_QUESTIONS),
+    kind: z.enum(questionKinds),
+    timeLimitMinutes: z
+      .number()
+      .int()
+      .min(questionSessionTimeLimits[0])
+      .max(questionSessionTimeLimits[questionSessionTimeLimits.length - 1]),
+  })
+  .refine(
+    ({ easyCount, mediumCount, hardCount }) => {
+      const total = easyCount + mediumCount + hardCount
+      return total >= 1 && total <= MAX_SESSION_QUESTIONS
+    },
+    {
+      message: `Choose between 1 and ${MAX_SESSION_QUESTIONS} questions in total`,
+      path: ["hardCount"],
+    }
+  )
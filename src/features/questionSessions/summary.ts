@@ -0,0 +1,44 @@
+import { getQuestionTopicCoverage } from "@/features/questions/topics"
+
+const WEAKEST_TOPIC_COUNT = 3
+
+export function getQuestionSessionSummary(
+  attempts: {
+    rating: number | null
+    timeSpentSeconds: number | null
+    question: { topic: string | null }
+  }[]
+) {
+  const ratings = attempts.flatMap(({ rating }) =>
+    rating == null ? [] : [rating]
+  )
+  const totalTimeSeconds = attempts.reduce(
+    (total, { timeSpentSeconds }) => total + (timeSpentSeconds ?? 0),
+    0
+  )
+
+  return {
+    answeredCount: attempts.length,
+    averageRating:
+      ratings.length === 0
+        ? null
+        : Math.round(
+            (ratings.reduce((sum, rating) => sum + rating, 0) /
+              ratings.length) *
+              10
+          ) / 10,
+    totalTimeSeconds,
+    averageTimeSeconds:
+      attempts.length === 0
+        ? 0
+        : Math.round(totalTimeSeconds / attempts.length),
+    weakestTopics: getQuestionTopicCoverage(
+      attempts.map(({ rating, question }) => ({
+        topic: question.topic,
+        attempts: [{ rating }],
+      }))
+    )
+      .filter(topic => topic.averageRating != null)
+      .slice(0, WEAKEST_TOPIC_COUNT),
+  }
+}
@@ -0,0 +1,61 @@
+import { questionDifficulties, QuestionDifficulty } from "@/drizzle/schema"
+
+export const questionDifficultyModes = [
+  ...questionDifficulties,
+  "adaptive",
+] as const
+export type QuestionDifficultyMode = (typeof questionDifficultyModes)[number]
+
+const RECENT_ATTEMPT_COUNT = 3
+const STEP_UP_RATING = 8
+const STEP_DOWN_RATING = 4
+
+export function getAdaptiveDifficulty(
+  recentAttempts: { rating: number; difficulty: QuestionDifficulty }[]
+): { difficulty: QuestionDifficulty; reason: string } {
+  const attempts = recentAttempts.slice(0, RECENT_ATTEMPT_COUNT)
+  if (attempts.length === 0) {
+    return {
+      difficulty: "medium",
+      reason: "You have no rated answers yet, so we are starting at medium.",
+    }
+  }
+
+  const currentDifficulty = attempts[0].difficulty
+  const currentIndex = questionDifficulties.indexOf(currentDifficulty)
+  const average =
+    attempts.reduce((sum, attempt) => sum + attempt.rating, 0) / attempts.length
+  const summary = `Your last ${
+    attempts.length === 1 ? "answer" : `${attempts.length} answers`
+  } averaged ${Number(average.toFixed(1))}/10`
+
+  if (average >= STEP_UP_RATING) {
+    const difficulty =
+      questionDifficulties[
+        Math.min(currentIndex + 1, questionDifficulties.length - 1)
+      ]
+    return {
+      difficulty,
+      reason:
+        difficulty === currentDifficulty
+          ? `${summary}, so we are keeping you at the hardest level.`
+          : `${summary}, so we are stepping up from ${currentDifficulty} to ${difficulty}.`,
+    }
+  }
+
+  if (average <= STEP_DOWN_RATING) {
+    const difficulty = questionDifficulties[Math.max(currentIndex - 1, 0)]
+    return {
+      difficulty,
+      reason:
+        difficulty === currentDifficulty
+          ? `${summary}, so we are staying at the easiest level.`
+          : `${summary}, so we are stepping down from ${currentDifficulty} to ${difficulty}.`,
+    }
+  }
+
+  return {
+    difficulty: currentDifficulty,
+    reason: `${summary}, so we are staying at ${currentDifficulty}.`,
+  }
+}
@@ -0,0 +1,58 @@
+import { CodeTestOutput, CodeTestResult } from "./schemas"
+
+/**
+ * Checks the outputs of the candidate's code against the expected values of
+ * the test cases, in the same order. This runs on the server when grading, so
+ * the client only ever reports what the code returned.
+ */
+export function getCodeTestResults(
+  testCases: { description: string; expected: string }[],
+  outputs: CodeTestOutput[]
+): CodeTestResult[] {
+  return testCases.map((testCase, index) => {
+    const result = {
+      description: testCase.description,
+      expected: testCase.expected,
+    }
+    const output = outputs.at(index)
+
+    if (output == null) {
+      return { ...result, passed: false, error: "The test was not run" }
+    }
+    if (output.error != null || output.actual == null) {
+      return { ...result, passed: false, error: output.error }
+    }
+
+    return {
+      ...result,
+      actual: output.actual,
+      passed: isJsonEqual(output.actual, testCase.expected),
+    }
+  })
+}
+
+function isJsonEqual(actual: string, expected: string) {
+  try {
+    return isEqual(JSON.parse(actual), JSON.parse(expected))
+  } catch {
+    return false
+  }
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true
+  if (typeof a !== "object" || typeof b !== "object") return false
+  if (a == null || b == null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const aKeys = Object.keys(a)
+  const bKeys = Object.keys(b)
+  if (aKeys.length !== bKeys.length) return false
+
+  return aKeys.every(key =>
+    isEqual(
+      (a as Record<string, unknown>)[key],
+      (b as Record<string, unknown>)[key]
+    )
+  )
+}
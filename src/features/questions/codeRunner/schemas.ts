@@ -0,0 +1,30 @@
+import { codingLanguages } from "@/services/ai/questionSchemas"
+import z from "zod"
+
+export const codeTestResultSchema = z.object({
+  description: z.string(),
+  passed: z.boolean(),
+  expected: z.string(),
+  actual: z.string().optional(),
+  error: z.string().optional(),
+})
+export type CodeTestResult = z.infer<typeof codeTestResultSchema>
+
+// What the candidate's function returned for a single set of arguments, as
+// JSON, or the error it threw
+export const codeTestOutputSchema = z.object({
+  actual: z.string().optional(),
+  error: z.string().optional(),
+})
+export type CodeTestOutput = z.infer<typeof codeTestOutputSchema>
+
+export type CodeRunRequest = {
+  code: string
+  language: (typeof codingLanguages)[number]
+  functionName: string
+  args: string[]
+}
+
+export type CodeRunResponse =
+  | { error: false; outputs: CodeTestOutput[] }
+  | { error: true; message: string }
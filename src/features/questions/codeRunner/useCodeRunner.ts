@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { PublicCodingSpec } from "../codingSpec"
+import { getCodeTestResults } from "./results"
+import {
+  CodeRunRequest,
+  CodeRunResponse,
+  CodeTestOutput,
+  CodeTestResult,
+} from "./schemas"
+
+const RUN_TIMEOUT_MS = 5000
+
+/**
+ * Runs the candidate's code against every test case of a coding question. The
+ * results of the visible cases are shown right away, while the outputs of all
+ * cases are returned so they can be sent to the server for grading.
+ */
+export function useCodeRunner() {
+  const [results, setResults] = useState<CodeTestResult[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const workerRef = useRef<Worker | null>(null)
+
+  useEffect(() => {
+    return () => workerRef.current?.terminate()
+  }, [])
+
+  const runTests = useCallback((codingSpec: PublicCodingSpec, code: string) => {
+    workerRef.current?.terminate()
+    setIsRunning(true)
+    setError(null)
+
+    const request: CodeRunRequest = {
+      code,
+      language: codingSpec.language,
+      functionName: codingSpec.functionName,
+      args: [
+        ...codingSpec.testCases.map(({ args }) => args),
+        ...codingSpec.hiddenTestArgs,
+      ],
+    }
+
+    return new Promise<CodeTestOutput[] | null>(resolve => {
+      const worker = new Worker(new URL("./worker.ts", import.meta.url))
+      workerRef.current = worker
+
+      function finish(response: CodeRunResponse) {
+        clearTimeout(timeoutId)
+        worker.terminate()
+        if (workerRef.current === worker) workerRef.current = null
+
+        setIsRunning(false)
+        if (response.error) {
+          setResults(null)
+          setError(response.message)
+          resolve(null)
+        } else {
+          setResults(
+            getCodeTestResults(codingSpec.testCases, response.outputs)
+          )
+          resolve(response.outputs)
+        }
+      }
+
+      const timeoutId = setTimeout(() => {
+        finish({
+          error: true,
+          message: `Your code took longer than ${
+            RUN_TIMEOUT_MS / 1000
+          } seconds to run`,
+        })
+      }, RUN_TIMEOUT_MS)
+
+      worker.onmessage = (event: MessageEvent<CodeRunResponse>) => {
+        finish(event.data)
+      }
+      worker.onerror = event => {
+        event.preventDefault()
+        finish({ error: true, message: event.message })
+      }
+      worker.postMessage(request)
+    })
+  }, [])
+
+  const reset = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setIsRunning(false)
+    setResults(null)
+    setError(null)
+  }, [])
+
+  return { runTests, results, error, isRunning, reset }
+}
@@ -0,0 +1,108 @@
+import { transform } from "sucrase"
+import { CodeRunRequest, CodeRunResponse, CodeTestOutput } from "./schemas"
+
+/**
+ * Runs the candidate's code off the main thread. As a dedicated worker it has
+ * no access to the DOM, cookies, local storage or the page's state, and it is
+ * terminated after a single run or a timeout. It still shares the origin of
+ * the app, so the network, storage and messaging APIs below are removed before
+ * the code runs. The outputs are only trusted once checked on the server.
+ */
+const BLOCKED_GLOBALS = [
+  "fetch",
+  "XMLHttpRequest",
+  "WebSocket",
+  "WebTransport",
+  "EventSource",
+  "importScripts",
+  "indexedDB",
+  "caches",
+  "BroadcastChannel",
+  "Worker",
+  "SharedWorker",
+  "postMessage",
+]
+
+const worker = self as unknown as Worker
+// Kept before the globals are removed, so only the runner can report results
+const postResponse = worker.postMessage.bind(worker)
+
+worker.onmessage = (event: MessageEvent<CodeRunRequest>) => {
+  // Removed only now, since loading the worker's own code may need them
+  removeBlockedGlobals()
+  postResponse(runCode(event.data) satisfies CodeRunResponse)
+}
+
+function removeBlockedGlobals() {
+  for (const name of BLOCKED_GLOBALS) {
+    // Most of them are inherited from the prototypes of the global scope
+    for (
+      let target: object | null = self;
+      target != null;
+      target = Object.getPrototypeOf(target)
+    ) {
+      if (Object.prototype.hasOwnProperty.call(target, name)) {
+        delete (target as Record<string, unknown>)[name]
+      }
+    }
+    Object.defineProperty(self, name, {
+      value: undefined,
+      writable: false,
+      configurable: false,
+    })
+  }
+}
+
+// Only reports what the function returned, since the outputs are checked
+// against the expected values by whoever asked for the run
+function runCode({
+  code,
+  language,
+  functionName,
+  args,
+}: CodeRunRequest): CodeRunResponse {
+  let fn: unknown
+  try {
+    const js =
+      language === "typescript"
+        ? transform(code, { transforms: ["typescript"] }).code
+        : code
+    fn = new Function(
+      `${js}\n;return typeof ${functionName} === "function" ? ${functionName} : undefined`
+    )()
+  } catch (error) {
+    return { error: true, message: getErrorMessage(error) }
+  }
+
+  if (typeof fn !== "function") {
+    return {
+      error: true,
+      message: `Could not find a function named ${functionName}`,
+    }
+  }
+
+  return {
+    error: false,
+    outputs: args.map(testArgs =>
+      runTestCase(fn as (...args: unknown[]) => unknown, testArgs)
+    ),
+  }
+}
+
+function runTestCase(
+  fn: (...args: unknown[]) => unknown,
+  testArgs: string
+): CodeTestOutput {
+  try {
+    const args = JSON.parse(testArgs)
+    const actual = fn(...(Array.isArray(args) ? args : [args]))
+
+    return { actual: JSON.stringify(actual) ?? "undefined" }
+  } catch (error) {
+    return { error: getErrorMessage(error) }
+  }
+}
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,80 @@
+import {
+  AiCodingQuestion,
+  aiCodingQuestionSchema,
+} from "@/services/ai/questionSchemas"
+import z from "zod"
+import { getCodeTestResults } from "./codeRunner/results"
+import { CodeTestOutput } from "./codeRunner/schemas"
+
+type CodingTestCase = AiCodingQuestion["testCases"][number]
+
+export const publicCodingSpecSchema = aiCodingQuestionSchema.extend({
+  // Arguments of the hidden test cases, which the candidate's code is run
+  // with before grading. Their expected values stay on the server.
+  hiddenTestArgs: z.array(z.string()),
+})
+export type PublicCodingSpec = z.infer<typeof publicCodingSpecSchema>
+
+/**
+ * Removes the expected values of the hidden test cases from a coding spec, so
+ * they are never sent to the client
+ */
+export function getPublicCodingSpec(
+  codingSpec: AiCodingQuestion
+): PublicCodingSpec {
+  return {
+    ...codingSpec,
+    testCases: getVisibleTestCases(codingSpec),
+    hiddenTestArgs: getHiddenTestCases(codingSpec).map(({ args }) => args),
+  }
+}
+
+export function withPublicCodingSpec<
+  T extends { codingSpec: AiCodingQuestion | null },
+>(
+  question: T
+): Omit<T, "codingSpec"> & { codingSpec: PublicCodingSpec | null } {
+  return {
+    ...question,
+    codingSpec:
+      question.codingSpec == null
+        ? null
+        : getPublicCodingSpec(question.codingSpec),
+  }
+}
+
+/**
+ * Checks the outputs the client reported for the visible and then the hidden
+ * test cases against their expected values, which only the server knows for
+ * the hidden ones
+ */
+export function getCodingTestResults(
+  codingSpec: AiCodingQuestion,
+  outputs: CodeTestOutput[]
+) {
+  const visibleTestCases = getVisibleTestCases(codingSpec)
+
+  return {
+    visible: getCodeTestResults(
+      visibleTestCases,
+      outputs.slice(0, visibleTestCases.length)
+    ),
+    hidden: getCodeTestResults(
+      getHiddenTestCases(codingSpec),
+      outputs.slice(visibleTestCases.length)
+    ),
+  }
+}
+
+function getVisibleTestCases(codingSpec: AiCodingQuestion) {
+  return codingSpec.testCases.filter(testCase => !isHiddenTestCase(testCase))
+}
+
+function getHiddenTestCases(codingSpec: AiCodingQuestion) {
+  return codingSpec.testCases.filter(isHiddenTestCase)
+}
+
+// Questions generated before test cases could be hidden showed all of them
+function isHiddenTestCase(testCase: CodingTestCase) {
+  return testCase.hidden === true
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import { Textarea } from "@/components/ui/textarea"
+import { cn } from "@/lib/utils"
+import { ComponentProps, KeyboardEvent } from "react"
+
+const INDENT = "  "
+
+export function CodeEditor({
+  value,
+  onValueChange,
+  className,
+  ...props
+}: Omit<ComponentProps<typeof Textarea>, "value" | "onChange"> & {
+  value: string
+  onValueChange: (value: string) => void
+}) {
+  function handleKeyDown(e: KeyboardEvent<HTMLTextAreaElement>) {
+    if (e.key !== "Tab" || e.shiftKey) return
+
+    e.preventDefault()
+    const { selectionStart, selectionEnd } = e.currentTarget
+    const textarea = e.currentTarget
+    onValueChange(
+      value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd)
+    )
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd =
+        selectionStart + INDENT.length
+    })
+  }
+
+  return (
+    <Textarea
+      {...props}
+      value={value}
+      onChange={e => onValueChange(e.target.value)}
+      onKeyDown={handleKeyDown}
+      spellCheck={false}
+      autoCapitalize="off"
+      autoCorrect="off"
+      className={cn("font-mono whitespace-pre", className)}
+    />
+  )
+}
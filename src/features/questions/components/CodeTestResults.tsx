@@ -0,0 +1,60 @@
+import { Badge } from "@/components/ui/badge"
+import { CodeTestResult } from "@/features/questions/codeRunner/schemas"
+import { cn } from "@/lib/utils"
+import { CheckIcon, XIcon } from "lucide-react"
+
+export function CodeTestResults({
+  results,
+  error,
+  className,
+}: {
+  results: CodeTestResult[] | null
+  error: string | null
+  className?: string
+}) {
+  if (error != null) {
+    return (
+      <div className={cn("space-y-2", className)}>
+        <Badge variant="destructive">Error</Badge>
+        <pre className="text-sm whitespace-pre-wrap text-destructive">
+          {error}
+        </pre>
+      </div>
+    )
+  }
+
+  if (results == null) return null
+
+  const passedCount = results.filter(result => result.passed).length
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <Badge
+        variant={passedCount === results.length ? "default" : "destructive"}
+      >
+        {passedCount}/{results.length} tests passed
+      </Badge>
+      <ul className="space-y-2 text-sm">
+        {results.map((result, index) => (
+          <li key={index} className="flex gap-2">
+            {result.passed ? (
+              <CheckIcon className="size-4 flex-shrink-0 mt-0.5 text-primary" />
+            ) : (
+              <XIcon className="size-4 flex-shrink-0 mt-0.5 text-destructive" />
+            )}
+            <div className="min-w-0">
+              <p>{result.description}</p>
+              {!result.passed && (
+                <p className="font-mono text-xs text-muted-foreground break-all">
+                  {result.error != null
+                    ? result.error
+                    : `Expected ${result.expected}, received ${result.actual}`}
+                </p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+"use client"
+
+import { MarkdownRenderer } from "@/components/MarkdownRenderer"
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Textarea } from "@/components/ui/textarea"
+import { QuestionFeedback } from "@/features/questionAttempts/components/QuestionFeedback"
+import { CodeTestResult } from "@/features/questions/codeRunner/schemas"
+import { AiQuestionFeedback } from "@/services/ai/questionSchemas"
+import { DeepPartial } from "ai"
+import { LightbulbIcon, SparklesIcon } from "lucide-react"
+import { ReactNode } from "react"
+import { CodeEditor } from "./CodeEditor"
+import { CodeTestResults } from "./CodeTestResults"
+
+export function QuestionContainer({
+  question,
+  difficultyReason,
+  hints = [],
+  feedback,
+  answer,
+  isAnswerDisabled,
+  setAnswer,
+  emptyMessage,
+  codeTests,
+}: {
+  question: string | null
+  difficultyReason?: string | null
+  hints?: string[]
+  feedback: DeepPartial<AiQuestionFeedback> | undefined
+  answer: string | null
+  isAnswerDisabled: boolean
+  setAnswer: (value: string) => void
+  emptyMessage?: ReactNode
+  codeTests?: { results: CodeTestResult[] | null; error: string | null }
+}) {
+  return (
+    <ResizablePanelGroup direction="horizontal" className="flex-grow border-t">
+      <ResizablePanel id="question-and-feedback" defaultSize={50} minSize={5}>
+        <ResizablePanelGroup direction="vertical" className="flex-grow">
+          <ResizablePanel id="question" defaultSize={25} minSize={5}>
+            <ScrollArea className="h-full min-w-48 *:h-full">
+              {!question && emptyMessage ? (
+                <p className="text-base md:text-lg flex items-center justify-center h-full p-6">
+                  {emptyMessage}
+                </p>
+              ) : (
+                question && (
+                  <div className="p-6 space-y-4">
+                    {difficultyReason && (
+                      <p className="flex items-center gap-2 text-sm text-muted-foreground border rounded px-3 py-2">
+                        <SparklesIcon className="size-4 flex-shrink-0" />
+                        {difficultyReason}
+                      </p>
+                    )}
+                    <MarkdownRenderer>{question}</MarkdownRenderer>
+                    {hints.map((hint, index) => (
+                      <div
+                        key={index}
+                        className="flex items-baseline gap-3 pl-3 pr-5 py-3 rounded-lg bg-warning/10 border border-warning/40"
+                      >
+                        <LightbulbIcon className="size-4 flex-shrink-0 text-warning" />
+                        <div className="space-y-1">
+                          <p className="text-sm font-semibold">
+                            Hint {index + 1}
+                          </p>
+                          <MarkdownRenderer className="prose-sm">
+                            {hint}
+                          </MarkdownRenderer>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )
+              )}
+            </ScrollArea>
+          </ResizablePanel>
+          {feedback && (
+            <>
+              <ResizableHandle withHandle />
+              <ResizablePanel id="feedback" defaultSize={75} minSize={5}>
+                <ScrollArea className="h-full min-w-48 *:h-full">
+                  <QuestionFeedback feedback={feedback} className="p-6" />
+                </ScrollArea>
+              </ResizablePanel>
+            </>
+          )}
+        </ResizablePanelGroup>
+      </ResizablePanel>
+      <ResizableHandle withHandle />
+      <ResizablePanel id="answer" defaultSize={50} minSize={5}>
+        {codeTests == null ? (
+          <ScrollArea className="h-full min-w-48 *:h-full">
+            <Textarea
+              disabled={isAnswerDisabled}
+              onChange={e => setAnswer(e.target.value)}
+              value={answer ?? ""}
+              placeholder="Type your answer here..."
+              className="w-full h-full resize-none border-none rounded-none focus-visible:ring focus-visible:ring-inset !text-base p-6"
+            />
+          </ScrollArea>
+        ) : (
+          <ResizablePanelGroup direction="vertical">
+            <ResizablePanel id="code" defaultSize={70} minSize={5}>
+              <ScrollArea className="h-full min-w-48 *:h-full">
+                <CodeEditor
+                  disabled={isAnswerDisabled}
+                  onValueChange={setAnswer}
+                  value={answer ?? ""}
+                  placeholder="Write your solution here..."
+                  className="w-full h-full resize-none border-none rounded-none focus-visible:ring focus-visible:ring-inset !text-sm p-6"
+                />
+              </ScrollArea>
+            </ResizablePanel>
+            <ResizableHandle withHandle />
+            <ResizablePanel id="test-results" defaultSize={30} minSize={5}>
+              <ScrollArea className="h-full min-w-48 *:h-full">
+                {codeTests.results == null && codeTests.error == null ? (
+                  <p className="text-sm text-muted-foreground p-6">
+                    Run the tests to check your solution.
+                  </p>
+                ) : (
+                  <CodeTestResults
+                    results={codeTests.results}
+                    error={codeTests.error}
+                    className="p-6"
+                  />
+                )}
+              </ScrollArea>
+            </ResizablePanel>
+          </ResizablePanelGroup>
+        )}
+      </ResizablePanel>
+    </ResizablePanelGroup>
+  )
+}
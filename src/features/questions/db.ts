@@ -1,6 +1,9 @@
 import { db } from "@/drizzle/db"
-import { QuestionTable } from "@/drizzle/schema"
-import { revalidateQuestionCache } from "./dbCache"
+import { QuestionAttemptTable, QuestionTable } from "@/drizzle/schema"
+import { and, asc, desc, eq, isNotNull } from "drizzle-orm"
+import { cacheTag } from "next/dist/server/use-cache/cache-tag"
+import { getQuestionAttemptJobInfoTag } from "../questionAttempts/dbCache"
+import { getQuestionJobInfoTag, revalidateQuestionCache } from "./dbCache"
 
 export async function insertQuestion(
   question: typeof QuestionTable.$inferInsert
@@ -20,3 +23,71 @@ export async function insertQuestion(
 
   return newQuestion
 }
+
+export async function updateQuestion(
+  id: string,
+  question: Partial<typeof QuestionTable.$inferInsert>
+) {
+  const [updatedQuestion] = await db
+    .update(QuestionTable)
+    .set(question)
+    .where(eq(QuestionTable.id, id))
+    .returning({
+      id: QuestionTable.id,
+      jobInfoId: QuestionTable.jobInfoId,
+    })
+
+  revalidateQuestionCache(updatedQuestion)
+
+  return updatedQuestion
+}
+
+/**
+ * The most recent rated attempts of a job info with the difficulty of their
+ * question, used to pick the next adaptive difficulty
+ */
+export async function getRecentQuestionAttempts(jobInfoId: string) {
+  "use cache"
+  cacheTag(getQuestionAttemptJobInfoTag(jobInfoId))
+
+  const attempts = await db
+    .select({
+      rating: QuestionAttemptTable.rating,
+      difficulty: QuestionTable.difficulty,
+    })
+    .from(QuestionAttemptTable)
+    .innerJoin(
+      QuestionTable,
+      eq(QuestionAttemptTable.questionId, QuestionTable.id)
+    )
+    .where(
+      and(
+        eq(QuestionTable.jobInfoId, jobInfoId),
+        isNotNull(QuestionAttemptTable.rating)
+      )
+    )
+    .orderBy(desc(QuestionAttemptTable.createdAt))
+    .limit(5)
+
+  return attempts.flatMap(({ rating, difficulty }) =>
+    rating == null ? [] : [{ rating, difficulty }]
+  )
+}
+
+export async function getQuestionTopics(jobInfoId: string) {
+  "use cache"
+  cacheTag(getQuestionJobInfoTag(jobInfoId))
+
+  const questions = await db
+    .selectDistinct({ topic: QuestionTable.topic })
+    .from(QuestionTable)
+    .where(
+      and(
+        eq(QuestionTable.jobInfoId, jobInfoId),
+        isNotNull(QuestionTable.topic)
+      )
+    )
+    .orderBy(asc(QuestionTable.topic))
+
+  return questions.flatMap(({ topic }) => (topic == null ? [] : [topic]))
+}
@@ -1,4 +1,10 @@
-import { QuestionDifficulty } from "@/drizzle/schema"
+import {
+  QuestionDifficulty,
+  QuestionKind,
+  QuestionType,
+} from "@/drizzle/schema"
+import { AiCodingQuestion } from "@/services/ai/questionSchemas"
+import { DeepPartial } from "ai"
 
 export function formatQuestionDifficulty(difficulty: QuestionDifficulty) {
   switch (difficulty) {
@@ -14,3 +20,42 @@ export function formatQuestionDifficulty(difficulty: QuestionDifficulty) {
       )
   }
 }
+
+export function formatQuestionType(type: QuestionType) {
+  switch (type) {
+    case "standard":
+      return "Standard"
+    case "coding":
+      return "Coding"
+    default:
+      throw new Error(`Unknown question type: ${type satisfies never}`)
+  }
+}
+
+export function formatQuestionKind(kind: QuestionKind) {
+  switch (kind) {
+    case "technical":
+      return "Technical"
+    case "behavioral":
+      return "Behavioral"
+    case "system-design":
+      return "System Design"
+    default:
+      throw new Error(`Unknown question kind: ${kind satisfies never}`)
+  }
+}
+
+export function formatCodingQuestionAsMarkdown(
+  question: DeepPartial<AiCodingQuestion>
+) {
+  const sections: string[] = []
+  if (question.title != null) sections.push(`## ${question.title}`)
+  if (question.statement != null) sections.push(question.statement)
+  if (question.signature != null) {
+    sections.push(
+      `\`\`\`${question.language ?? ""}\n${question.signature}\n\`\`\``
+    )
+  }
+
+  return sections.join("\n\n")
+}
@@ -0,0 +1,6 @@
+export const MAX_QUESTION_HINTS = 3
+const HINT_RATING_PENALTY = 1
+
+export function applyHintPenalty(rating: number, hintsUsed: number) {
+  return Math.max(1, rating - hintsUsed * HINT_RATING_PENALTY)
+}
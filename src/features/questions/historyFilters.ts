@@ -0,0 +1,82 @@
+import { questionDifficulties } from "@/drizzle/schema"
+import z from "zod"
+
+export const questionHistoryPeriods = ["7d", "30d", "90d"] as const
+export type QuestionHistoryPeriod = (typeof questionHistoryPeriods)[number]
+
+export const questionHistoryRatings = [
+  "strong",
+  "average",
+  "weak",
+  "unrated",
+] as const
+export type QuestionHistoryRating = (typeof questionHistoryRatings)[number]
+
+export const questionHistoryFiltersSchema = z.object({
+  difficulty: z.enum(questionDifficulties).optional().catch(undefined),
+  period: z.enum(questionHistoryPeriods).optional().catch(undefined),
+  rating: z.enum(questionHistoryRatings).optional().catch(undefined),
+})
+export type QuestionHistoryFilters = z.infer<
+  typeof questionHistoryFiltersSchema
+>
+
+export function filterQuestionHistory<
+  T extends {
+    difficulty: string
+    createdAt: Date
+    attempts: { rating: number | null }[]
+  },
+>(questions: T[], { difficulty, period, rating }: QuestionHistoryFilters) {
+  const minDate = period == null ? null : getPeriodStart(period)
+
+  return questions.filter(question => {
+    if (difficulty != null && question.difficulty !== difficulty) return false
+    if (minDate != null && question.createdAt < minDate) return false
+    if (rating != null) {
+      return getRatingBucket(question.attempts[0]?.rating ?? null) === rating
+    }
+
+    return true
+  })
+}
+
+export function formatQuestionHistoryPeriod(period: QuestionHistoryPeriod) {
+  switch (period) {
+    case "7d":
+      return "Last 7 days"
+    case "30d":
+      return "Last 30 days"
+    case "90d":
+      return "Last 90 days"
+    default:
+      throw new Error(`Unknown history period: ${period satisfies never}`)
+  }
+}
+
+export function formatQuestionHistoryRating(rating: QuestionHistoryRating) {
+  switch (rating) {
+    case "strong":
+      return "Strong (8-10)"
+    case "average":
+      return "Average (5-7)"
+    case "weak":
+      return "Weak (1-4)"
+    case "unrated":
+      return "Unrated"
+    default:
+      throw new Error(`Unknown history rating: ${rating satisfies never}`)
+  }
+}
+
+function getRatingBucket(rating: number | null): QuestionHistoryRating {
+  if (rating == null) return "unrated"
+  if (rating >= 8) return "strong"
+  if (rating >= 5) return "average"
+  return "weak"
+}
+
+function getPeriodStart(period: QuestionHistoryPeriod) {
+  const days = Number(period.replace("d", ""))
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+}
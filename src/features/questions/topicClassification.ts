@@ -0,0 +1,36 @@
+import { classifyAiQuestionTopic } from "@/services/ai/questions"
+import { after } from "next/server"
+import { getQuestionTopics, updateQuestion } from "./db"
+
+/**
+ * Tags a question that has no chosen topic after the response has been sent,
+ * so it can still be grouped by topic without delaying the question.
+ */
+export function queueQuestionTopicClassification(question: {
+  id: string
+  jobInfoId: string
+  text: string
+}) {
+  after(() => classifyQuestionTopic(question))
+}
+
+// A failed classification leaves the question untagged
+async function classifyQuestionTopic({
+  id,
+  jobInfoId,
+  text,
+}: {
+  id: string
+  jobInfoId: string
+  text: string
+}) {
+  try {
+    const topic = await classifyAiQuestionTopic({
+      question: text,
+      existingTopics: await getQuestionTopics(jobInfoId),
+    })
+    await updateQuestion(id, { topic })
+  } catch {
+    return
+  }
+}
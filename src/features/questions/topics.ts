@@ -0,0 +1,74 @@
+import z from "zod"
+
+export const questionTopicSchema = z
+  .string()
+  .trim()
+  .max(100)
+  .transform(topic => (topic === "" ? undefined : topic))
+
+export type QuestionTopicCoverage = {
+  topic: string | null
+  questionCount: number
+  attemptCount: number
+  averageRating: number | null
+}
+
+/**
+ * Groups questions by topic (case-insensitively) and summarizes how much each
+ * topic has been practiced. The average rating uses the latest rated attempt
+ * of each question. Questions without a topic are grouped under `null`.
+ * Results are ordered so the weakest and least practiced topics come first.
+ */
+export function getQuestionTopicCoverage(
+  questions: {
+    topic: string | null
+    attempts: { rating: number | null }[]
+  }[]
+) {
+  const coverage = new Map<
+    string | null,
+    Omit<QuestionTopicCoverage, "averageRating"> & { ratings: number[] }
+  >()
+
+  for (const question of questions) {
+    const key = question.topic?.toLowerCase() ?? null
+    const topic = coverage.get(key) ?? {
+      topic: question.topic,
+      questionCount: 0,
+      attemptCount: 0,
+      ratings: [],
+    }
+
+    topic.questionCount++
+    topic.attemptCount += question.attempts.length
+    const latestRating = question.attempts.find(
+      attempt => attempt.rating != null
+    )?.rating
+    if (latestRating != null) topic.ratings.push(latestRating)
+
+    coverage.set(key, topic)
+  }
+
+  return [...coverage.values()]
+    .map(({ ratings, ...topic }): QuestionTopicCoverage => {
+      const averageRating =
+        ratings.length === 0
+          ? null
+          : Math.round(
+              (ratings.reduce((sum, rating) => sum + rating, 0) /
+                ratings.length) *
+                10
+            ) / 10
+
+      return { ...topic, averageRating }
+    })
+    .sort(
+      (a, b) =>
+        (a.averageRating ?? -1) - (b.averageRating ?? -1) ||
+        a.questionCount - b.questionCount
+    )
+}
+
+export function formatQuestionTopic(topic: string | null) {
+  return topic ?? "General"
+}
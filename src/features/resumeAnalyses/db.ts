@@ -0,0 +1,19 @@
+import { db } from "@/drizzle/db"
+import { ResumeAnalysisTable } from "@/drizzle/schema"
+import { revalidateResumeAnalysisCache } from "./dbCache"
+
+export async function insertResumeAnalysis(
+  resumeAnalysis: typeof ResumeAnalysisTable.$inferInsert
+) {
+  const [newResumeAnalysis] = await db
+    .insert(ResumeAnalysisTable)
+    .values(resumeAnalysis)
+    .returning({
+      id: ResumeAnalysisTable.id,
+      jobInfoId: ResumeAnalysisTable.jobInfoId,
+    })
+
+  revalidateResumeAnalysisCache(newResumeAnalysis)
+
+  return newResumeAnalysis
+}
@@ -0,0 +1,26 @@
+import { getGlobalTag, getIdTag, getJobInfoTag } from "@/lib/dataCache"
+import { revalidateTag } from "next/cache"
+
+export function getResumeAnalysisGlobalTag() {
+  return getGlobalTag("resumeAnalyses")
+}
+
+export function getResumeAnalysisJobInfoTag(jobInfoId: string) {
+  return getJobInfoTag("resumeAnalyses", jobInfoId)
+}
+
+export function getResumeAnalysisIdTag(id: string) {
+  return getIdTag("resumeAnalyses", id)
+}
+
+export function revalidateResumeAnalysisCache({
+  id,
+  jobInfoId,
+}: {
+  id: string
+  jobInfoId: string
+}) {
+  revalidateTag(getResumeAnalysisGlobalTag())
+  revalidateTag(getResumeAnalysisJobInfoTag(jobInfoId))
+  revalidateTag(getResumeAnalysisIdTag(id))
+}
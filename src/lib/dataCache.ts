@@ -1,4 +1,14 @@
-type CacheTag = "users" | "jobInfos" | "interviews" | "questions"
+type CacheTag =
+  | "users"
+  | "jobInfos"
+  | "interviews"
+  | "interviewMessages"
+  | "questions"
+  | "questionAttempts"
+  | "questionHints"
+  | "questionReviews"
+  | "questionSessions"
+  | "resumeAnalyses"
 
 export function getGlobalTag(tag: CacheTag) {
   return `global:${tag}` as const
@@ -12,6 +22,14 @@ export function getJobInfoTag(tag: CacheTag, jobInfoId: string) {
   return `jobInfo:${jobInfoId}:${tag}` as const
 }
 
+export function getInterviewTag(tag: CacheTag, interviewId: string) {
+  return `interview:${interviewId}:${tag}` as const
+}
+
+export function getQuestionTag(tag: CacheTag, questionId: string) {
+  return `question:${questionId}:${tag}` as const
+}
+
 export function getIdTag(tag: CacheTag, id: string) {
   return `id:${id}:${tag}` as const
 }
@@ -5,3 +5,10 @@ const DATE_TIME_FORMATTER = new Intl.DateTimeFormat(undefined, {
 export function formatDateTime(date: Date) {
   return DATE_TIME_FORMATTER.format(date)
 }
+
+export function formatDuration(totalSeconds: number) {
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`
+}
@@ -0,0 +1,200 @@
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 50
+// Helvetica has no fixed width, so wrapping uses a slightly generous average
+// character width to make sure lines never run off the page
+const AVERAGE_CHAR_WIDTH = 0.52
+
+const FONTS = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+  italic: { name: "F3", baseFont: "Helvetica-Oblique" },
+} as const
+
+const BLOCK_STYLES = {
+  title: { font: "bold", size: 20, indent: 0, spacing: 12 },
+  heading: { font: "bold", size: 15, indent: 0, spacing: 10 },
+  subheading: { font: "bold", size: 12, indent: 0, spacing: 8 },
+  paragraph: { font: "regular", size: 11, indent: 0, spacing: 6 },
+  listItem: { font: "regular", size: 11, indent: 14, spacing: 3 },
+  quote: { font: "italic", size: 11, indent: 14, spacing: 3 },
+} as const satisfies Record<
+  string,
+  { font: keyof typeof FONTS; size: number; indent: number; spacing: number }
+>
+
+export type PdfBlock = {
+  style: keyof typeof BLOCK_STYLES
+  text: string
+}
+
+/**
+ * Creates a simple text only PDF document using the standard PDF fonts, so
+ * no font files need to be embedded. Characters outside of Latin-1 are
+ * replaced since the standard fonts cannot render them.
+ */
+export function createPdf(blocks: PdfBlock[]) {
+  const pages = layoutPages(blocks)
+  const objects: string[] = []
+  const addObject = (content: string) => objects.push(content)
+
+  const fontIds = Object.values(FONTS).map(({ baseFont }) =>
+    addObject(
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`
+    )
+  )
+  const fontResources = Object.values(FONTS)
+    .map(({ name }, index) => `/${name} ${fontIds[index]} 0 R`)
+    .join(" ")
+
+  // The pages object must be referenced by every page, so its id is reserved
+  // before the pages themselves are added
+  const pagesId = addObject("")
+  const pageIds = pages.map(lines => {
+    const content = lines
+      .map(
+        ({ font, size, x, y, text }) =>
+          `BT /${FONTS[font].name} ${size} Tf ${x} ${y} Td (${escapePdfText(text)}) Tj ET`
+      )
+      .join("\n")
+    const contentId = addObject(
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    )
+
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`
+    )
+  })
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds
+    .map(id => `${id} 0 R`)
+    .join(" ")}] /Count ${pageIds.length} >>`
+  const catalogId = addObject(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`)
+
+  let pdf = "%PDF-1.4\n"
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets
+    .map(offset => `${offset.toString().padStart(10, "0")} 00000 n \n`)
+    .join("")
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`
+
+  // Every character is a single byte after sanitizing, so the offsets above
+  // match the byte offsets of the encoded file
+  return Buffer.from(pdf, "latin1")
+}
+
+/**
+ * Converts the subset of Markdown used by our exports (headings, lists,
+ * quotes and paragraphs) into PDF blocks. Inline formatting is stripped.
+ */
+export function markdownToPdfBlocks(markdown: string): PdfBlock[] {
+  return markdown.split("\n").flatMap((line): PdfBlock[] => {
+    const text = line.trim()
+    if (text === "" || text === ">") return []
+
+    if (text.startsWith("# ")) {
+      return [{ style: "title", text: stripInlineMarkdown(text.slice(2)) }]
+    }
+    if (text.startsWith("## ")) {
+      return [{ style: "heading", text: stripInlineMarkdown(text.slice(3)) }]
+    }
+    if (text.startsWith("### ")) {
+      return [{ style: "subheading", text: stripInlineMarkdown(text.slice(4)) }]
+    }
+    if (text.startsWith("- ") || text.startsWith("* ")) {
+      return [
+        { style: "listItem", text: `- ${stripInlineMarkdown(text.slice(2))}` },
+      ]
+    }
+    if (text.startsWith("> ")) {
+      return [{ style: "quote", text: stripInlineMarkdown(text.slice(2)) }]
+    }
+
+    return [{ style: "paragraph", text: stripInlineMarkdown(text) }]
+  })
+}
+
+function layoutPages(blocks: PdfBlock[]) {
+  const pages: {
+    font: keyof typeof FONTS
+    size: number
+    x: number
+    y: number
+    text: string
+  }[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+
+  blocks.forEach(block => {
+    const { font, size, indent, spacing } = BLOCK_STYLES[block.style]
+    const lineHeight = size * 1.4
+    const maxChars = Math.floor(
+      (PAGE_WIDTH - MARGIN * 2 - indent) / (size * AVERAGE_CHAR_WIDTH)
+    )
+
+    wrapText(sanitizeText(block.text), maxChars).forEach(text => {
+      if (y - lineHeight < MARGIN) {
+        pages.push([])
+        y = PAGE_HEIGHT - MARGIN
+      }
+      y -= lineHeight
+      pages[pages.length - 1].push({ font, size, x: MARGIN + indent, y, text })
+    })
+    y -= spacing
+  })
+
+  return pages
+}
+
+function wrapText(text: string, maxChars: number) {
+  const lines: string[] = []
+  let line = ""
+
+  text.split(/\s+/).forEach(word => {
+    // Break up words that would not fit on a line by themselves, like URLs
+    while (word.length > maxChars) {
+      if (line !== "") lines.push(line)
+      lines.push(word.slice(0, maxChars))
+      word = word.slice(maxChars)
+      line = ""
+    }
+
+    if (line === "") {
+      line = word
+    } else if (line.length + word.length + 1 <= maxChars) {
+      line += ` ${word}`
+    } else {
+      lines.push(line)
+      line = word
+    }
+  })
+  if (line !== "") lines.push(line)
+
+  return lines
+}
+
+function stripInlineMarkdown(text: string) {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/__(.+?)__/g, "$1")
+    .replace(/`(.+?)`/g, "$1")
+    .replace(/\[(.+?)\]\(.+?\)/g, "$1")
+}
+
+function sanitizeText(text: string) {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "?")
+}
+
+function escapePdfText(text: string) {
+  return text.replace(/[\\()]/g, char => `\\${char}`)
+}
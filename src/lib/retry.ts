@@ -0,0 +1,29 @@
+/**
+ * Calls `fn` until it succeeds, waiting exponentially longer between attempts.
+ * Errors that `shouldRetry` rejects and the error of the last attempt are
+ * thrown unchanged.
+ */
+export async function withRetries<T>(
+  fn: () => Promise<T>,
+  {
+    attempts = 3,
+    baseDelayMs = 500,
+    shouldRetry = () => true,
+  }: {
+    attempts?: number
+    baseDelayMs?: number
+    shouldRetry?: (error: unknown) => boolean
+  } = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      if (attempt >= attempts || !shouldRetry(error)) throw error
+
+      // Jitter keeps concurrent requests from retrying in lockstep
+      const delayMs = baseDelayMs * 2 ** (attempt - 1) * (1 + Math.random())
+      await new Promise(resolve => setTimeout(resolve, delayMs))
+    }
+  }
+}
@@ -232,11 +232,11 @@ export function formatEmotionAnalysisReport(
 
   report += '## Emotional Trends\n\n'
   if (analysis.emotionalTrends.improving) {
-    report += '✅ **Improving**: Confidence increased during the interview\n'
+    report += '**Improving**: Confidence increased during the interview\n'
   } else if (analysis.emotionalTrends.declining) {
-    report += '⚠️ **Declining**: Confidence decreased during the interview\n'
+    report += '**Declining**: Confidence decreased during the interview\n'
   } else {
-    report += '➡️ **Stable**: Confidence remained relatively constant\n'
+    report += '**Stable**: Confidence remained relatively constant\n'
   }
   report += '\n'
 
@@ -0,0 +1,58 @@
+import z from "zod"
+
+const categoryFeedbackSchema = z.object({
+  score: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .describe("Score for this category from 1-10"),
+  feedback: z
+    .string()
+    .describe(
+      "Detailed feedback for this category formatted as markdown, without a heading"
+    ),
+  evidence: z
+    .array(z.string())
+    .describe(
+      "Short direct quotes from the transcript that support the score. Only include text that appears in the transcript"
+    ),
+  actionItems: z
+    .array(z.string())
+    .describe("Concrete steps the interviewee can take to improve"),
+})
+
+export const aiInterviewFeedbackSchema = z.object({
+  overallScore: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .describe("Overall interview performance score from 1-10"),
+  summary: z
+    .string()
+    .describe("Short, high-level summary of the interviewee's performance"),
+  categories: z.object({
+    communicationClarity: categoryFeedbackSchema,
+    confidence: categoryFeedbackSchema,
+    responseQuality: categoryFeedbackSchema,
+    pacing: categoryFeedbackSchema,
+    engagement: categoryFeedbackSchema,
+    roleFit: categoryFeedbackSchema,
+    overallAssessment: categoryFeedbackSchema,
+  }),
+})
+
+export type AiInterviewFeedback = z.infer<typeof aiInterviewFeedbackSchema>
+
+export const interviewFeedbackCategories = [
+  "communicationClarity",
+  "confidence",
+  "responseQuality",
+  "pacing",
+  "engagement",
+  "roleFit",
+  "overallAssessment",
+] as const
+export type InterviewFeedbackCategory =
+  (typeof interviewFeedbackCategories)[number]
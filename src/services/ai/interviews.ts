@@ -1,45 +1,98 @@
-import { JobInfoTable } from "@/drizzle/schema"
-import { fetchChatMessages } from "../hume/lib/api"
-import { generateText } from "ai"
+import { InterviewTable, JobInfoTable } from "@/drizzle/schema"
+import {
+  formatInterviewerPersona,
+  formatInterviewType,
+} from "@/features/interviews/formatters"
+import {
+  getInterviewerPersonaInstructions,
+  getInterviewTypeInstructions,
+} from "@/features/interviews/interviewerInstructions"
+import type { InterviewEmotionAnalysis } from "@/features/interviews/emotionAnalysis"
+import type { InterviewPacingMetrics } from "@/features/interviews/pacingMetrics"
+import type { InterviewTranscriptMessage } from "@/features/interviews/transcript"
+import { CoreMessage, generateObject, streamText } from "ai"
+import { aiInterviewFeedbackSchema } from "./interviewSchemas"
 import { google } from "./models/google"
 
+type InterviewJobInfo = Pick<
+  typeof JobInfoTable.$inferSelect,
+  "title" | "description" | "experienceLevel"
+>
+type InterviewSettings = Pick<
+  typeof InterviewTable.$inferSelect,
+  "type" | "persona" | "targetDurationMinutes"
+>
+
+export function generateAiInterviewerReply({
+  transcript,
+  interview,
+  jobInfo,
+  userName,
+  onFinish,
+}: {
+  transcript: InterviewTranscriptMessage[]
+  interview: InterviewSettings
+  jobInfo: InterviewJobInfo
+  userName: string
+  onFinish: (message: string) => void
+}) {
+  const messages: CoreMessage[] =
+    transcript.length === 0
+      ? [{ role: "user", content: "I am ready to start the interview." }]
+      : transcript.map(message => ({
+          role: message.speaker === "interviewee" ? "user" : "assistant",
+          content: message.text,
+        }))
+
+  return streamText({
+    model: google("gemini-2.5-flash"),
+    messages,
+    onFinish: ({ text }) => onFinish(text),
+    system: `You are a professional interviewer conducting a mock job interview over text chat. The candidate types their answers and you reply with your next message in the conversation.
+
+---
+
+Additional Context:
+
+Interviewee's name: ${userName}
+Job title: ${jobInfo.title || "Not Specified"}
+Job description: ${jobInfo.description}
+Job Experience level: ${jobInfo.experienceLevel}
+
+---
+
+Guidelines:
+- ${getInterviewTypeInstructions(interview.type)}
+- ${getInterviewerPersonaInstructions(interview.persona)}
+- Open the interview by greeting the candidate by name, briefly introducing yourself as the interviewer and asking your first question.
+- Ask one question at a time and tailor the questions to the job description and experience level.
+- React briefly to the candidate's previous answer and ask a follow-up question when their answer is vague or incomplete.
+- Do not give feedback, hints or evaluations of the answers. The candidate will receive feedback after the interview.
+- Keep each message short and conversational, just like a real interviewer would. Do not use markdown.
+- ${getTargetDurationInstructions(interview.targetDurationMinutes)} When the candidate asks to finish, or you have asked enough questions, thank the candidate, give them a chance to ask questions about the role and then close the interview.`,
+  })
+}
+
 export async function generateAiInterviewFeedback({
-  humeChatId,
+  transcript,
+  emotionAnalysis,
+  pacingMetrics,
+  interview,
   jobInfo,
   userName,
 }: {
-  humeChatId: string
-  jobInfo: Pick<
-    typeof JobInfoTable.$inferSelect,
-    "title" | "description" | "experienceLevel"
-  >
+  transcript: InterviewTranscriptMessage[]
+  emotionAnalysis: InterviewEmotionAnalysis
+  pacingMetrics: InterviewPacingMetrics
+  interview: InterviewSettings
+  jobInfo: InterviewJobInfo
   userName: string
 }) {
-  const messages = await fetchChatMessages(humeChatId)
-
-  const formattedMessages = messages
-    .map(message => {
-      if (message.type !== "USER_MESSAGE" && message.type !== "AGENT_MESSAGE") {
-        return null
-      }
-      if (message.messageText == null) return null
-
-      return {
-        speaker:
-          message.type === "USER_MESSAGE" ? "interviewee" : "interviewer",
-        text: message.messageText,
-        emotionFeatures:
-          message.role === "USER" ? message.emotionFeatures : undefined,
-      }
-    })
-    .filter(f => f != null)
-
-  const { text } = await generateText({
+  const { object } = await generateObject({
     model: google("gemini-2.5-flash"),
-    prompt: JSON.stringify(formattedMessages),
-    maxSteps: 10,
-    experimental_continueSteps: true,
-    system: `You are an expert interview coach and evaluator. Your role is to analyze a mock job interview transcript and provide clear, detailed, and structured feedback on the interviewee's performance based on the job requirements. Your output should be in markdown format.
+    schema: aiInterviewFeedbackSchema,
+    prompt: JSON.stringify(transcript),
+    system: `You are an expert interview coach and evaluator. Your role is to analyze a mock job interview transcript and provide clear, detailed, and structured feedback on the interviewee's performance based on the job requirements.
   
 ---
 
@@ -49,50 +102,69 @@ Interviewee's name: ${userName}
 Job title: ${jobInfo.title}
 Job description: ${jobInfo.description}
 Job Experience level: ${jobInfo.experienceLevel}
+Interview type: ${formatInterviewType(
+      interview.type
+    )}. ${getInterviewTypeInstructions(interview.type)}
+Interviewer persona: ${formatInterviewerPersona(interview.persona)}
+${getTargetDurationInstructions(interview.targetDurationMinutes)}
 
 ---
 
 Transcript JSON Format:
 
 speaker: "interviewee" or "interviewer"
-text: "The actual spoken text of the message"
-emotionFeatures: "An object of emotional features where the key is the emotion and the value is the intensity (0-1). This is only provided for interviewee messages."
+text: "The actual spoken (or typed, for text chat interviews) text of the message"
+emotionFeatures: "An object of emotional features where the key is the emotion and the value is the intensity (0-1). This is only provided for interviewee messages in voice interviews and is missing when the interview was held over text chat."
+sentAt: "The time the message was sent. Use the gaps between messages to judge pacing."
+
+---
+
+Emotion Analysis Summary:
+
+${formatEmotionAnalysisSummary(emotionAnalysis)}
+
+---
+
+Pacing Metrics:
+
+${formatPacingMetricsSummary(pacingMetrics)}
 
 ---
 
 Your Task:
 
-Review the full transcript and evaluate the interviewee's performance in relation to the role. Provide detailed, structured feedback organized into the following primary categories (do not repeat the subcategories in your response and instead just use them as reference for what to look for and include in your response):
+Review the full transcript and evaluate the interviewee's performance in relation to the role. Provide detailed, structured feedback for each of the following primary categories (do not repeat the subcategories in your response and instead just use them as reference for what to look for and include in your response):
 
 ---
 
 Feedback Categories:
 
-1. **Communication Clarity**
+1. **Communication Clarity** (key: "communicationClarity")
    - Was the interviewee articulate and easy to understand?
    - Did they use structured and appropriate language for this job and experience level?
 
-2. **Confidence and Emotional State**
-   - Based on the provided emotional cues and speech content, how confident did the interviewee appear?
+2. **Confidence and Emotional State** (key: "confidence")
+   - Based on the provided emotional cues, the emotion analysis summary and speech content, how confident did the interviewee appear?
    - Highlight any nervous or hesitant moments that may have affected the impression they gave.
 
-3. **Response Quality**
+3. **Response Quality** (key: "responseQuality")
    - Did the interviewee respond with relevant, well-reasoned answers aligned with the job requirements?
    - Were answers appropriately scoped for their experience level (e.g., detail depth, use of examples)?
 
-4. **Pacing and Timing**
-   - Analyze delays between interviewer questions and interviewee responses.
+4. **Pacing and Timing** (key: "pacing")
+   - Analyze delays between interviewer questions and interviewee responses using the provided pacing metrics.
    - Point out long or unnatural pauses that may indicate uncertainty or unpreparedness.
+   - Comment on whether the interviewee's share of the talk time was appropriate.
 
-5. **Engagement and Interaction**
+5. **Engagement and Interaction** (key: "engagement")
    - Did the interviewee show curiosity or ask thoughtful questions?
    - Did they engage with the conversation in a way that reflects interest in the role and company?
 
-6. **Role Fit & Alignment**
+6. **Role Fit & Alignment** (key: "roleFit")
    - Based on the job description and the candidate's answers, how well does the interviewee match the expectations for this role and level?
    - Identify any gaps in technical or soft skills.
 
-7. **Overall Strengths & Areas for Improvement**
+7. **Overall Strengths & Areas for Improvement** (key: "overallAssessment")
    - Summarize top strengths.
    - Identify the most important areas for improvement.
    - Provide a brief overall performance assessment.
@@ -101,14 +173,64 @@ Feedback Categories:
 
 Additional Notes:
 
-- Reference specific moments from the transcript, including quotes and timestamps where useful. Do not return specific emotional features in your response.
-- Tailor your analysis and feedback to the specific job description and experience level provided.
+- Reference specific moments from the transcript where useful. Every evidence quote must be copied exactly from the interviewee's or interviewer's messages. Do not return specific emotional features in your response.
+- Tailor your analysis and feedback to the specific job description, experience level and interview type provided. Judge the answers by what this type of interview is meant to assess, e.g. do not penalize a screening interview for a lack of technical depth.
 - Be clear, constructive, and actionable. The goal is to help the interviewee grow.
-- Do not include an h1 title or information about the job description in your response, just include the feedback.
+- Do not include headings or information about the job description in the category feedback, just include the feedback.
 - Refer to the interviewee as "you" in your feedback. This feedback should be written as if you were speaking directly to the interviewee.
-- Include a number rating (out of 10) in the heading for each category (e.g., "Communication Clarity: 8/10") as well as an overall rating at the very start of the response.
-- Stop generating output as soon you have provided the full feedback.`,
+- Score each category from 1-10 and give an overall score that reflects the whole interview.`,
   })
 
-  return text
+  return object
+}
+
+function getTargetDurationInstructions(targetDurationMinutes: number | null) {
+  if (targetDurationMinutes == null) return ""
+
+  return `The interview is planned to take about ${targetDurationMinutes} minutes.`
+}
+
+function formatPacingMetricsSummary(metrics: InterviewPacingMetrics) {
+  const formatSeconds = (seconds: number | null) =>
+    seconds == null ? "Unknown" : `${seconds}s`
+
+  return [
+    `Average response latency: ${formatSeconds(
+      metrics.averageResponseLatencySeconds
+    )}`,
+    `Longest pause: ${formatSeconds(metrics.longestPauseSeconds)}`,
+    `Interviewee share of talk time: ${
+      metrics.talkTimeRatio == null
+        ? "Unknown"
+        : `${Math.round(metrics.talkTimeRatio * 100)}%`
+    }`,
+    "Response latency per question:",
+    ...metrics.responseLatencies.map(
+      ({ question, latencySeconds }) => `- ${latencySeconds}s: "${question}"`
+    ),
+  ].join("\n")
+}
+
+function formatEmotionAnalysisSummary(analysis: InterviewEmotionAnalysis) {
+  const formatPercent = (value: number) => `${Math.round(value * 100)}%`
+  const trend = analysis.emotionalTrends.improving
+    ? "improving"
+    : analysis.emotionalTrends.declining
+      ? "declining"
+      : "stable"
+
+  return [
+    analysis.source === "voice"
+      ? "Measured from the interviewee's voice."
+      : "Estimated from the wording of the interviewee's answers, so treat it as a rough signal.",
+    `Overall confidence: ${formatPercent(analysis.overallConfidence)}`,
+    `Average calmness: ${formatPercent(analysis.averageCalmness)}`,
+    `Emotional stability: ${formatPercent(analysis.emotionalStability)}`,
+    `Confidence trend: ${trend}`,
+    `Dominant emotions: ${
+      analysis.dominantEmotions.map(({ emotion }) => emotion).join(", ") ||
+      "None"
+    }`,
+    `Insights: ${analysis.insights.join("; ")}`,
+  ].join("\n")
 }
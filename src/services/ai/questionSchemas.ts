@@ -0,0 +1,110 @@
+import z from "zod"
+
+const starComponentSchema = z.object({
+  score: z.number().min(0).max(10).describe("Score from 0-10"),
+  comment: z.string().describe("Short justification for the score"),
+})
+
+export const aiQuestionFeedbackSchema = z.object({
+  rating: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .describe("Overall rating of the answer from 1-10"),
+  summary: z
+    .string()
+    .describe(
+      "Short, high-level summary of how well the question was answered"
+    ),
+  strengths: z
+    .array(z.string())
+    .describe("Specific things the answer did well"),
+  gaps: z
+    .array(z.string())
+    .describe("Specific mistakes, omissions or areas that could be improved"),
+  rubric: z
+    .array(
+      z.object({
+        criterion: z.string().describe("Name of the evaluation criterion"),
+        score: z.number().min(0).max(10).describe("Score from 0-10"),
+        comment: z
+          .string()
+          .describe("Short justification for the criterion score"),
+      })
+    )
+    .describe("Scores for each evaluation criterion used to grade the answer"),
+  star: z
+    .object({
+      situation: starComponentSchema,
+      task: starComponentSchema,
+      action: starComponentSchema,
+      result: starComponentSchema,
+    })
+    .optional()
+    .describe(
+      "Separate scores for each part of the STAR method. Only included for behavioral questions"
+    ),
+  referenceAnswer: z
+    .string()
+    .describe("A full correct answer to the question formatted as markdown"),
+})
+
+export type AiQuestionFeedback = z.infer<typeof aiQuestionFeedbackSchema>
+
+export const starComponents = ["situation", "task", "action", "result"] as const
+export type StarComponent = (typeof starComponents)[number]
+
+export const codingLanguages = ["javascript", "typescript"] as const
+export type CodingLanguage = (typeof codingLanguages)[number]
+
+export const aiCodingQuestionSchema = z.object({
+  title: z.string().describe("Short title of the coding problem"),
+  statement: z
+    .string()
+    .describe(
+      "Problem statement formatted as markdown, including constraints and examples but not the solution"
+    ),
+  language: z
+    .enum(codingLanguages)
+    .describe("Language the solution must be written in"),
+  functionName: z
+    .string()
+    .describe("Name of the function the candidate must implement"),
+  signature: z
+    .string()
+    .describe(
+      "Full function signature in the chosen language, e.g. `function twoSum(nums: number[], target: number): number[]`"
+    ),
+  starterCode: z
+    .string()
+    .describe(
+      "Starter code containing the function signature and an empty body"
+    ),
+  testCases: z
+    .array(
+      z.object({
+        description: z.string().describe("Short description of the case"),
+        args: z
+          .string()
+          .describe("JSON encoded array of arguments passed to the function"),
+        expected: z
+          .string()
+          .describe("JSON encoded value the function should return"),
+        hidden: z
+          .boolean()
+          .describe(
+            "Whether the case is hidden from the candidate and only used for grading"
+          ),
+      })
+    )
+    .describe("Test cases used to check the candidate's solution"),
+})
+
+export type AiCodingQuestion = z.infer<typeof aiCodingQuestionSchema>
+
+export const aiQuestionTopicSchema = z.object({
+  topic: z
+    .string()
+    .describe("Short name of the topic the question covers, e.g. `Caching`"),
+})
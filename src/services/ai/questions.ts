@@ -1,15 +1,26 @@
 import {
   JobInfoTable,
   QuestionDifficulty,
+  QuestionKind,
   QuestionTable,
 } from "@/drizzle/schema"
-import { CoreMessage, streamText } from "ai"
+import { CoreMessage, generateObject, streamObject, streamText } from "ai"
 import { google } from "./models/google"
+import {
+  aiCodingQuestionSchema,
+  AiQuestionFeedback,
+  aiQuestionFeedbackSchema,
+  aiQuestionTopicSchema,
+  CodingLanguage,
+} from "./questionSchemas"
+import type { CodeTestResult } from "@/features/questions/codeRunner/schemas"
 
 export function generateAiQuestion({
   jobInfo,
   previousQuestions,
   difficulty,
+  kind,
+  topic,
   onFinish,
 }: {
   jobInfo: Pick<
@@ -21,6 +32,8 @@ export function generateAiQuestion({
     "text" | "difficulty"
   >[]
   difficulty: QuestionDifficulty
+  kind: QuestionKind
+  topic?: string
   onFinish: (question: string) => void
 }) {
   const previousMessages = previousQuestions.flatMap(
@@ -43,7 +56,9 @@ export function generateAiQuestion({
     ],
     maxSteps: 10,
     experimental_continueSteps: true,
-    system: `You are an AI assistant that creates technical interview questions tailored to a specific job role. Your task is to generate one **realistic and relevant** technical question that matches the skill requirements of the job and aligns with the difficulty level provided by the user.
+    system: `You are an AI assistant that creates ${getQuestionKindDescription(
+      kind
+    )} interview questions tailored to a specific job role. Your task is to generate one **realistic and relevant** question that matches the requirements of the job and aligns with the difficulty level provided by the user.
 
 Job Information:
 - Job Description: \`${jobInfo.description}\`
@@ -51,31 +66,242 @@ Job Information:
 ${jobInfo.title ? `\n- Job Title: \`${jobInfo.title}\`` : ""}
 
 Guidelines:
-- The question must reflect the skills and technologies mentioned in the job description.
-- Make sure the question is appropriately scoped for the specified experience level.
+${getQuestionGuidelines(kind)}
 - A difficulty level of "easy", "medium", or "hard" is provided by the user and should be used to tailor the question.
-- Prefer practical, real-world challenges over trivia.
-- Return only the question, clearly formatted (e.g., with code snippets or bullet points if needed). Do not include the answer.
 - Return only one question at a time.
-- It is ok to ask a question about just a single part of the job description, such as a specific technology or skill (e.g., if the job description is for a Next.js, Drizzle, and TypeScript developer, you can ask a TypeScript only question).
-- The question should be formatted as markdown.
+${topic ? `- The question must focus on the following topic chosen by the user: \`${topic}\`\n` : ""}- The question should be formatted as markdown.
 - Stop generating output as soon you have provided the full question.`,
   })
 }
 
-export function generateAiQuestionFeedback({
+export async function classifyAiQuestionTopic({
+  question,
+  existingTopics,
+}: {
+  question: string
+  existingTopics: string[]
+}) {
+  const { object } = await generateObject({
+    model: google("gemini-2.5-flash"),
+    schema: aiQuestionTopicSchema,
+    prompt: question,
+    system: `You are an assistant that tags interview questions with the topic they cover, so a candidate can see which topics they are weakest at. The question is provided in the user prompt.
+
+Topics already used for this job:
+${
+  existingTopics.length === 0
+    ? "None"
+    : existingTopics.map(topic => `- ${topic}`).join("\n")
+}
+
+Guidelines:
+- Reuse one of the existing topics, with the exact same spelling, if it fits the question.
+- Otherwise create a new topic of 1-3 words in title case, e.g. \`System Design\`, \`Conflict Resolution\` or \`Caching\`.
+- The topic should be broad enough to be shared by several questions, but more specific than the job itself.`,
+  })
+
+  return object.topic.trim().slice(0, 100)
+}
+
+export function generateAiCodingQuestion({
+  jobInfo,
+  previousQuestions,
+  difficulty,
+  topic,
+}: {
+  jobInfo: Pick<
+    typeof JobInfoTable.$inferSelect,
+    "title" | "description" | "experienceLevel"
+  >
+  previousQuestions: Pick<typeof QuestionTable.$inferSelect, "text">[]
+  difficulty: QuestionDifficulty
+  topic?: string
+}) {
+  return streamObject({
+    model: google("gemini-2.5-flash"),
+    schema: aiCodingQuestionSchema,
+    prompt: difficulty,
+    system: `You are an AI assistant that creates coding interview problems tailored to a specific job role. Your task is to generate one **realistic and relevant** coding problem that matches the skill requirements of the job and aligns with the difficulty level provided by the user.
+
+Job Information:
+- Job Description: \`${jobInfo.description}\`
+- Experience Level: \`${jobInfo.experienceLevel}\`
+${jobInfo.title ? `\n- Job Title: \`${jobInfo.title}\`` : ""}
+
+Previously asked questions (do not repeat these):
+${
+  previousQuestions.length === 0
+    ? "None"
+    : previousQuestions.map(q => `- ${q.text.split("\n")[0]}`).join("\n")
+}
+
+Guidelines:
+- The problem must be solvable by implementing a single pure function in JavaScript or TypeScript. Use TypeScript unless the job description only mentions JavaScript.
+- The function must not rely on the DOM, network, file system, timers or any imports.
+- A difficulty level of "easy", "medium", or "hard" is provided by the user and should be used to tailor the problem.
+- Prefer practical problems related to the job over pure algorithm puzzles when possible.
+${topic ? `- The problem must focus on the following topic chosen by the user: \`${topic}\`\n` : ""}- The \`statement\` must be markdown and include the expected behavior, constraints and at least one example. Do not include the solution.
+- The \`starterCode\` must declare the function using the \`function\` keyword with the exact \`functionName\` and an empty body.
+- Provide 5-8 \`testCases\` that cover normal cases and edge cases. \`args\` must be a JSON array of the arguments and \`expected\` must be the JSON value the function returns. Only use JSON compatible values.
+- Set \`hidden\` to false for 2-3 simple cases the candidate can run while working, such as the examples from the statement. Set it to true for the remaining cases, especially the edge cases.
+
+Only return the structured JSON response as defined by the schema.`,
+  })
+}
+
+export function generateAiFollowUpQuestion({
+  jobInfo,
   question,
   answer,
+  feedback,
+  kind,
+  onFinish,
 }: {
+  jobInfo: Pick<
+    typeof JobInfoTable.$inferSelect,
+    "title" | "description" | "experienceLevel"
+  >
   question: string
   answer: string
+  feedback: string
+  kind: QuestionKind
+  onFinish: (question: string) => void
 }) {
   return streamText({
     model: google("gemini-2.5-flash"),
+    onFinish: ({ text }) => onFinish(text),
+    messages: [
+      { role: "assistant", content: question },
+      { role: "user", content: answer },
+    ],
+    system: `You are an expert interviewer running a ${getQuestionKindDescription(
+      kind
+    )} interview. You asked the candidate a question (provided as the assistant message) and they answered it (provided as the user message). Your task is to ask one **follow-up question** that digs deeper into the same subject, the way a real interviewer would.
+
+Job Information:
+- Job Description: \`${jobInfo.description}\`
+- Experience Level: \`${jobInfo.experienceLevel}\`
+${jobInfo.title ? `\n- Job Title: \`${jobInfo.title}\`` : ""}
+
+Feedback the candidate received for their answer:
+\`\`\`
+${feedback}
+\`\`\`
+
+Guidelines:
+- The follow-up must build on the original question and the candidate's answer. Do not ask an unrelated question.
+- Go one level deeper: probe a weak spot or gap from the feedback, explore an edge case, ask about trade-offs or ask how the approach would change under new constraints.
+- Make sure the question is appropriately scoped for the specified experience level.
+- Return only the question, clearly formatted as markdown. Do not include the answer.
+- Stop generating output as soon you have provided the full question.`,
+  })
+}
+
+export function generateAiQuestionHint({
+  question,
+  answer,
+  previousHints,
+  kind,
+  onFinish,
+  onError,
+}: {
+  question: string
+  answer: string
+  previousHints: string[]
+  kind: QuestionKind
+  onFinish: (hint: string) => void | Promise<void>
+  onError: () => void | Promise<void>
+}) {
+  return streamText({
+    onFinish: ({ text }) => onFinish(text),
+    onError: () => onError(),
+    model: google("gemini-2.5-flash"),
+    prompt: answer.trim() === "" ? "I have not started my answer yet." : answer,
+    system: `You are a supportive interview coach. The candidate is practicing a ${getQuestionKindDescription(
+      kind
+    )} interview question and asked for a hint. The candidate's current draft answer is provided in the user prompt.
+
+The question is:
+\`\`\`
+${question}
+\`\`\`
+
+Hints already given (in order):
+${
+  previousHints.length === 0
+    ? "None"
+    : previousHints.map((hint, index) => `${index + 1}. ${hint}`).join("\n")
+}
+
+Guidelines:
+- This is hint number ${previousHints.length + 1}. Hints are progressive: the first hint should only nudge the candidate in the right direction, later hints can be more specific, such as pointing at the key concept or outlining the first step.
+- Never reveal the full answer, write the solution or repeat a previous hint.
+- Take the candidate's draft into account and point out what they are missing rather than what they already have.
+- Keep the hint short (1-3 sentences) and format it as markdown.
+- Refer to the candidate as "you".`,
+  })
+}
+
+export function generateAiQuestionFeedback({
+  question,
+  answer,
+  kind,
+  hintsUsed = 0,
+  codingLanguage,
+  testResults,
+  onFinish,
+}: {
+  question: string
+  answer: string
+  kind: QuestionKind
+  hintsUsed?: number
+  codingLanguage?: CodingLanguage
+  testResults?: { visible: CodeTestResult[]; hidden: CodeTestResult[] }
+  onFinish: (feedback: AiQuestionFeedback) => void | Promise<void>
+}) {
+  const additionalInstructions: string[] = []
+  if (hintsUsed > 0) {
+    additionalInstructions.push(
+      `- The candidate used ${hintsUsed} ${
+        hintsUsed === 1 ? "hint" : "hints"
+      } while answering. Mention this in the \`summary\`, but rate the answer on its own merits because a penalty for hints is applied separately.`
+    )
+  }
+  if (codingLanguage != null) {
+    additionalInstructions.push(
+      `- The candidate's answer is ${codingLanguage} code. Write the \`referenceAnswer\` solution in ${codingLanguage}.`
+    )
+  }
+  if (testResults != null) {
+    additionalInstructions.push(
+      `- The candidate's code was run against the example tests and ${formatPassedCount(
+        testResults.visible
+      )} passed. Use these results when grading correctness, but still evaluate code quality, efficiency and readability. Test results:
+\`\`\`json
+${JSON.stringify(testResults.visible, null, 2)}
+\`\`\``
+    )
+  }
+  if (testResults != null && testResults.hidden.length > 0) {
+    additionalInstructions.push(
+      `- The code was also run against hidden tests the candidate has not seen and ${formatPassedCount(
+        testResults.hidden
+      )} passed. Weigh these results as heavily as the example tests, but never reveal the arguments or expected values of the hidden tests in your feedback. Hidden test results:
+\`\`\`json
+${JSON.stringify(testResults.hidden, null, 2)}
+\`\`\``
+    )
+  }
+
+  return streamObject({
+    model: google("gemini-2.5-flash"),
+    schema: aiQuestionFeedbackSchema,
+    // Returned so the stream waits for the attempt to be saved
+    onFinish: ({ object }) => (object == null ? undefined : onFinish(object)),
     prompt: answer,
-    maxSteps: 10,
-    experimental_continueSteps: true,
-    system: `You are an expert technical interviewer. Your job is to evaluate the candidate's answer to a technical interview question.
+    system: `You are an expert interviewer. Your job is to evaluate the candidate's answer to a ${getQuestionKindDescription(
+      kind
+    )} interview question.
 
 The original question was:
 \`\`\`
@@ -84,25 +310,81 @@ ${question}
 
 Instructions:
 - Review the candidate's answer (provided in the user prompt).
-- Assign a rating from **1 to 10**, where:
+- Assign a \`rating\` from **1 to 10**, where:
   - 10 = Perfect, complete, and well-articulated
   - 7-9 = Mostly correct, with minor issues or room for optimization
   - 4-6 = Partially correct or incomplete
   - 1-3 = Largely incorrect or missing the point
-- Provide **concise, constructive feedback** on what was done well and what could be improved.
+- Write a short \`summary\` of how well the candidate answered the question.
+- List the specific \`strengths\` of the answer and the \`gaps\` (mistakes, omissions or areas for improvement). Each item should be a single concise sentence.
+${getFeedbackGuidelines(kind)}
+- Do not use the \`referenceAnswer\` as part of the grading. Only look at the candidate's response when assigning a rating.
+- Try to generate a concise reference answer where possible, but do not sacrifice quality for brevity.
 - Be honest but professional.
-- Include a full correct answer in the output. Do not use this answer as part of the grading. Only look at the candidate's response when assigning a rating.
-- Try to generate a concise answer where possible, but do not sacrifice quality for brevity.
 - Refer to the candidate as "you" in your feedback. This feedback should be written as if you were speaking directly to the interviewee.
-- Stop generating output as soon you have provided the rating, feedback, and full correct answer.
-
-Output Format (strictly follow this structure):
-\`\`\`
-## Feedback (Rating: <Your rating from 1 to 10>/10)
-<Your written feedback as markdown>
----
-## Correct Answer
-<The full correct answer as markdown>
-\`\`\``,
+${additionalInstructions.map(instruction => `${instruction}\n`).join("")}
+Only return the structured JSON response as defined by the schema. Do not include explanations or extra commentary outside the defined format.`,
   })
 }
+
+function formatPassedCount(testResults: CodeTestResult[]) {
+  const passedCount = testResults.filter(result => result.passed).length
+  return `${passedCount}/${testResults.length}`
+}
+
+function getQuestionKindDescription(kind: QuestionKind) {
+  switch (kind) {
+    case "technical":
+      return "technical"
+    case "behavioral":
+      return "behavioral"
+    case "system-design":
+      return "system design"
+    default:
+      throw new Error(`Unknown question kind: ${kind satisfies never}`)
+  }
+}
+
+function getQuestionGuidelines(kind: QuestionKind) {
+  switch (kind) {
+    case "technical":
+      return `- The question must reflect the skills and technologies mentioned in the job description.
+- Make sure the question is appropriately scoped for the specified experience level.
+- Prefer practical, real-world challenges over trivia.
+- Return only the question, clearly formatted (e.g., with code snippets or bullet points if needed). Do not include the answer.
+- It is ok to ask a question about just a single part of the job description, such as a specific technology or skill (e.g., if the job description is for a Next.js, Drizzle, and TypeScript developer, you can ask a TypeScript only question).`
+    case "behavioral":
+      return `- Ask about a past experience that demonstrates a competency that matters for this role (e.g., ownership, collaboration, handling conflict, dealing with ambiguity, learning from failure).
+- The question must be answerable using the STAR method (Situation, Task, Action, Result), e.g. "Tell me about a time when...".
+- Scale the expected scope of the experience to the experience level (e.g., team or organization wide impact for senior roles).
+- Harder difficulties should probe more complex situations such as disagreements with leadership or high-stakes trade-offs.
+- Return only the question. Do not include an example answer or tips on how to answer.`
+    case "system-design":
+      return `- Ask the candidate to design a system or component that is relevant to the domain and technologies in the job description.
+- Make sure the scope of the design is appropriate for the specified experience level.
+- State the key functional requirements and any important scale or constraint assumptions, but leave room for the candidate to clarify and decide on the rest.
+- Harder difficulties should involve larger scale, stricter constraints or more complex trade-offs.
+- Return only the question. Do not include a solution.`
+    default:
+      throw new Error(`Unknown question kind: ${kind satisfies never}`)
+  }
+}
+
+function getFeedbackGuidelines(kind: QuestionKind) {
+  switch (kind) {
+    case "technical":
+      return `- Grade the answer against 3-5 \`rubric\` criteria that fit the question (e.g., correctness, completeness, efficiency, code quality, communication). Give each criterion a score from 0-10 and a short comment.
+- Do not include \`star\`.
+- Provide a full correct \`referenceAnswer\` formatted as markdown.`
+    case "behavioral":
+      return `- Score each part of the STAR method separately in \`star\`: \`situation\` (clear and relevant context), \`task\` (the candidate's own responsibility or goal), \`action\` (specific steps the candidate personally took) and \`result\` (concrete, ideally measurable, outcome and what was learned). Give each part a score from 0-10 and a short comment.
+- Grade the answer against 3-5 \`rubric\` criteria that fit the question (e.g., relevance, ownership, impact, self-reflection, communication). Give each criterion a score from 0-10 and a short comment.
+- Provide an example strong answer that follows the STAR method as the \`referenceAnswer\`, formatted as markdown.`
+    case "system-design":
+      return `- Grade the answer against 3-5 \`rubric\` criteria that fit the question (e.g., requirements gathering, high-level architecture, data modeling, scalability and reliability, trade-off analysis). Give each criterion a score from 0-10 and a short comment.
+- Do not include \`star\`.
+- Provide an outline of a strong design as the \`referenceAnswer\`, formatted as markdown. Cover the main components, data flow, storage and the key trade-offs.`
+    default:
+      throw new Error(`Unknown question kind: ${kind satisfies never}`)
+  }
+}
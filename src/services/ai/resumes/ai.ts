@@ -1,17 +1,19 @@
 import { JobInfoTable } from "@/drizzle/schema"
 import { streamObject } from "ai"
 import { google } from "../models/google"
-import { aiAnalyzeSchema } from "./schemas"
+import { aiAnalyzeSchema, AiResumeAnalysis } from "./schemas"
 
 export async function analyzeResumeForJob({
   resumeFile,
   jobInfo,
+  onFinish,
 }: {
   resumeFile: File
   jobInfo: Pick<
     typeof JobInfoTable.$inferSelect,
     "title" | "experienceLevel" | "description"
   >
+  onFinish: (analysis: AiResumeAnalysis) => void | Promise<void>
 }) {
   return streamObject({
     model: google("gemini-2.5-flash"),
@@ -76,5 +78,7 @@ Other Guidelines:
 - Refer to the candidate as "you" in your feedback. This feedback should be written as if you were speaking directly to the candidate.
 - Stop generating output as soon you have provided the full feedback.
 `,
+    // Returned so the stream waits for the analysis to be saved
+    onFinish: ({ object }) => (object == null ? undefined : onFinish(object)),
   })
 }
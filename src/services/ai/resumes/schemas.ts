@@ -36,3 +36,5 @@ export const aiAnalyzeSchema = z.object({
     "Any other relevant analysis not covered by the above categories"
   ),
 })
+
+export type AiResumeAnalysis = z.infer<typeof aiAnalyzeSchema>
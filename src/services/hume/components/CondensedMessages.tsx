@@ -1,6 +1,7 @@
 import { UserAvatar } from "@/features/users/components/UserAvatar"
 import { cn } from "@/lib/utils"
 import { BrainCircuitIcon } from "lucide-react"
+import { ReactNode } from "react"
 
 export function CondensedMessages({
   messages,
@@ -8,7 +9,12 @@ export function CondensedMessages({
   className,
   maxFft = 0,
 }: {
-  messages: { isUser: boolean; content: string[] }[]
+  messages: {
+    isUser: boolean
+    content: string[]
+    id?: string
+    badge?: ReactNode
+  }[]
   user: { name: string; imageUrl: string }
   className?: string
   maxFft?: number
@@ -21,8 +27,9 @@ export function CondensedMessages({
         return (
           <div
             key={index}
+            id={message.id}
             className={cn(
-              "flex items-center gap-5 border pl-4 pr-6 py-4 rounded max-w-3/4",
+              "flex items-center gap-5 border pl-4 pr-6 py-4 rounded max-w-3/4 scroll-mt-24",
               message.isUser ? "self-end" : "self-start"
             )}
           >
@@ -46,6 +53,9 @@ export function CondensedMessages({
               {message.content.map((text, i) => (
                 <span key={i}>{text}</span>
               ))}
+              {message.badge != null && (
+                <div className="mt-1">{message.badge}</div>
+              )}
             </div>
           </div>
         )
@@ -0,0 +1,245 @@
+"use client"
+
+import {
+  ChatMetadataMessage,
+  ConnectOptions,
+  JSONMessage,
+  VoiceReadyState,
+} from "@humeai/voice-react"
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react"
+import {
+  createFakeChatGroupId,
+  createFakeChatId,
+  FakeChat,
+  getFakeChatGroupConnectedAt,
+  getFakeChatScriptTimeline,
+  getFakeEmotionScores,
+} from "../lib/fake/script"
+import {
+  VoiceSession,
+  VoiceSessionCloseEvent,
+  VoiceSessionContext,
+} from "../lib/voiceSession"
+
+const CONNECT_DELAY_MS = 500
+const TICK_MS = 100
+// How long a message is "spoken" for, which drives the audio visualizers
+const SPEAKING_MS = 2000
+// The interviewer hangs up shortly after the last message, like Hume does
+const HANG_UP_DELAY_MS = 2000
+const FFT_SIZE = 24
+const NORMAL_CLOSE: VoiceSessionCloseEvent = { code: 1000, reason: "" }
+const CHAT_GROUP_STORAGE_KEY_PREFIX = "fake-hume-chat-group-"
+
+/**
+ * Simulates a Hume voice session without a microphone or network access. The
+ * session moves from idle to connecting to open, plays the fake chat script
+ * in real time and closes once the script is done or the call is ended. The
+ * chat and chat group IDs it reports can be resolved by the fake Hume API on
+ * the server, and the chats of each group are kept in local storage so a
+ * resumed chat can list the ones before it.
+ */
+export function FakeVoiceSessionProvider({
+  children,
+}: {
+  children: ReactNode
+}) {
+  const [readyState, setReadyState] = useState(VoiceReadyState.IDLE)
+  const [connectedAt, setConnectedAt] = useState<Date | null>(null)
+  const [chatGroupId, setChatGroupId] = useState<string | null>(null)
+  const [previousChats, setPreviousChats] = useState<FakeChat[]>([])
+  const [isMuted, setIsMuted] = useState(false)
+  const [closeEvent, setCloseEvent] = useState<VoiceSessionCloseEvent | null>(
+    null
+  )
+  const [now, setNow] = useState(() => Date.now())
+
+  const timeline = useMemo(
+    () => (connectedAt == null ? [] : getFakeChatScriptTimeline(connectedAt)),
+    [connectedAt]
+  )
+  const sentCount = timeline.filter(({ sentAt }) => sentAt <= now).length
+  const lastMessage = timeline[sentCount - 1]
+  const isOpen = readyState === VoiceReadyState.OPEN
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const intervalId = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(intervalId)
+  }, [isOpen])
+
+  const close = useCallback(() => {
+    setCloseEvent(NORMAL_CLOSE)
+    setReadyState(VoiceReadyState.CLOSED)
+    if (isOpen && chatGroupId != null && connectedAt != null) {
+      storeFakeChats(chatGroupId, [
+        ...previousChats,
+        { connectedAt, endedAt: new Date() },
+      ])
+    }
+  }, [isOpen, chatGroupId, connectedAt, previousChats])
+
+  useEffect(() => {
+    if (!isOpen || sentCount < timeline.length || lastMessage == null) return
+    if (now - lastMessage.sentAt >= HANG_UP_DELAY_MS) close()
+  }, [isOpen, sentCount, timeline.length, lastMessage, now, close])
+
+  const messages = useMemo(
+    () =>
+      timeline.slice(0, sentCount).map((message, index): JSONMessage => {
+        const receivedAt = new Date(message.sentAt)
+
+        if (message.role === "assistant") {
+          return {
+            type: "assistant_message",
+            id: `fake-message-${index}`,
+            fromText: false,
+            message: { role: "assistant", content: message.text },
+            models: {},
+            receivedAt,
+          }
+        }
+
+        return {
+          type: "user_message",
+          fromText: false,
+          interim: false,
+          message: { role: "user", content: message.text },
+          models: {
+            prosody: { scores: getFakeEmotionScores(message.emotions) },
+          },
+          time: {
+            begin: message.offsetMs - message.delaySeconds * 1000,
+            end: message.offsetMs,
+          },
+          receivedAt,
+        }
+      }),
+    [timeline, sentCount]
+  )
+
+  const chatMetadata = useMemo(
+    (): ChatMetadataMessage | null =>
+      connectedAt == null || chatGroupId == null
+        ? null
+        : {
+            type: "chat_metadata",
+            chatId: createFakeChatId(previousChats, connectedAt),
+            chatGroupId,
+            receivedAt: connectedAt,
+          },
+    [connectedAt, chatGroupId, previousChats]
+  )
+
+  // Resuming a chat group starts a new chat that plays the script again
+  const connect = useCallback(async (options: ConnectOptions) => {
+    setCloseEvent(null)
+    setReadyState(VoiceReadyState.CONNECTING)
+    await new Promise(resolve => setTimeout(resolve, CONNECT_DELAY_MS))
+
+    const connectionTime = new Date()
+    setConnectedAt(connectionTime)
+    setChatGroupId(
+      options.resumedChatGroupId ?? createFakeChatGroupId(connectionTime)
+    )
+    setPreviousChats(
+      options.resumedChatGroupId == null
+        ? []
+        : getStoredFakeChats(options.resumedChatGroupId)
+    )
+    setNow(connectionTime.getTime())
+    setReadyState(VoiceReadyState.OPEN)
+  }, [])
+
+  const disconnect = useCallback(async () => close(), [close])
+
+  const isSpeaking =
+    isOpen && lastMessage != null && now - lastMessage.sentAt < SPEAKING_MS
+  const assistantSpeaking = isSpeaking && lastMessage.role === "assistant"
+  const userSpeaking = isSpeaking && lastMessage.role === "user" && !isMuted
+
+  const session: VoiceSession = {
+    connect,
+    disconnect,
+    readyState,
+    closeEvent,
+    chatMetadata,
+    messages,
+    fft: getFakeFft(assistantSpeaking, now),
+    micFft: getFakeFft(userSpeaking, now),
+    isMuted,
+    mute: () => setIsMuted(true),
+    unmute: () => setIsMuted(false),
+    callDurationTimestamp:
+      isOpen && connectedAt != null
+        ? formatCallDuration(now - connectedAt.getTime())
+        : null,
+  }
+
+  return (
+    <VoiceSessionContext.Provider value={session}>
+      {children}
+    </VoiceSessionContext.Provider>
+  )
+}
+
+// Falls back to the first chat of the group when its chats were not stored
+// (e.g. it was started in another browser), which the fake Hume API ends when
+// the next chat connected
+function getStoredFakeChats(chatGroupId: string): FakeChat[] {
+  const groupConnectedAt = getFakeChatGroupConnectedAt(chatGroupId)
+  const fallback =
+    groupConnectedAt == null
+      ? []
+      : [{ connectedAt: groupConnectedAt, endedAt: null }]
+
+  const stored = localStorage.getItem(
+    `${CHAT_GROUP_STORAGE_KEY_PREFIX}${chatGroupId}`
+  )
+  if (stored == null) return fallback
+
+  try {
+    const chats = JSON.parse(stored) as {
+      connectedAt: number
+      endedAt: number | null
+    }[]
+    return chats.map(({ connectedAt, endedAt }) => ({
+      connectedAt: new Date(connectedAt),
+      endedAt: endedAt == null ? null : new Date(endedAt),
+    }))
+  } catch {
+    return fallback
+  }
+}
+
+function storeFakeChats(chatGroupId: string, chats: FakeChat[]) {
+  localStorage.setItem(
+    `${CHAT_GROUP_STORAGE_KEY_PREFIX}${chatGroupId}`,
+    JSON.stringify(
+      chats.map(({ connectedAt, endedAt }) => ({
+        connectedAt: connectedAt.getTime(),
+        endedAt: endedAt?.getTime() ?? null,
+      }))
+    )
+  )
+}
+
+// Values use the same 0-4 range as the frequency data reported by Hume
+function getFakeFft(isSpeaking: boolean, now: number) {
+  return Array.from({ length: FFT_SIZE }, (_, index) =>
+    isSpeaking ? 2 + 2 * Math.sin(now / 150 + index) : 0
+  )
+}
+
+function formatCallDuration(durationMs: number) {
+  const totalSeconds = Math.floor(durationMs / 1000)
+
+  return [
+    Math.floor(totalSeconds / 3600),
+    Math.floor(totalSeconds / 60) % 60,
+    totalSeconds % 60,
+  ]
+    .map(value => value.toString().padStart(2, "0"))
+    .join(":")
+}
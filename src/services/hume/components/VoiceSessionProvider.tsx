@@ -0,0 +1,58 @@
+"use client"
+
+import { env } from "@/data/env/client"
+import { ConnectOptions, useVoice, VoiceProvider } from "@humeai/voice-react"
+import { ReactNode, useState } from "react"
+import { VoiceSessionCloseEvent, VoiceSessionContext } from "../lib/voiceSession"
+import { FakeVoiceSessionProvider } from "./FakeVoiceSessionProvider"
+
+export function VoiceSessionProvider({ children }: { children: ReactNode }) {
+  if (env.NEXT_PUBLIC_HUME_MODE === "fake") {
+    return <FakeVoiceSessionProvider>{children}</FakeVoiceSessionProvider>
+  }
+
+  return <LiveVoiceSessionProvider>{children}</LiveVoiceSessionProvider>
+}
+
+function LiveVoiceSessionProvider({ children }: { children: ReactNode }) {
+  const [closeEvent, setCloseEvent] = useState<VoiceSessionCloseEvent | null>(
+    null
+  )
+
+  return (
+    <VoiceProvider
+      onClose={({ code, reason }) => setCloseEvent({ code, reason })}
+    >
+      <LiveVoiceSession
+        closeEvent={closeEvent}
+        onConnect={() => setCloseEvent(null)}
+      >
+        {children}
+      </LiveVoiceSession>
+    </VoiceProvider>
+  )
+}
+
+function LiveVoiceSession({
+  children,
+  closeEvent,
+  onConnect,
+}: {
+  children: ReactNode
+  closeEvent: VoiceSessionCloseEvent | null
+  onConnect: () => void
+}) {
+  const voice = useVoice()
+
+  // A new connection hasn't closed yet
+  function connect(options: ConnectOptions) {
+    onConnect()
+    return voice.connect(options)
+  }
+
+  return (
+    <VoiceSessionContext.Provider value={{ ...voice, connect, closeEvent }}>
+      {children}
+    </VoiceSessionContext.Provider>
+  )
+}
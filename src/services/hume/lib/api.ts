@@ -1,20 +1,124 @@
+import { env as clientEnv } from "@/data/env/client"
 import { env } from "@/data/env/server"
-import { HumeClient } from "hume"
+import { withRetries } from "@/lib/retry"
+import { fetchAccessToken, HumeClient, HumeError, HumeTimeoutError } from "hume"
 import { ReturnChatEvent } from "hume/api/resources/empathicVoice"
+import { fakeHumeApi } from "./fake/api"
 
+const CHAT_EVENTS_PAGE_SIZE = 100
+const CHAT_EVENTS_PAGE_ATTEMPTS = 4
+
+export type HumeApi = {
+  fetchAccessToken: () => Promise<string>
+  listChatEvents: (humeChatId: string) => Promise<ReturnChatEvent[]>
+  // Includes the events of every chat in the group, e.g. resumed interviews
+  listChatGroupEvents: (humeChatGroupId: string) => Promise<ReturnChatEvent[]>
+}
+
+const liveHumeApi: HumeApi = {
+  fetchAccessToken() {
+    return fetchAccessToken({
+      apiKey: env.HUME_API_KEY,
+      secretKey: env.HUME_SECRET_KEY,
+    })
+  },
+
+  listChatEvents(humeChatId) {
+    const client = new HumeClient({ apiKey: env.HUME_API_KEY })
+
+    return listAllChatEvents(pageRequest =>
+      client.empathicVoice.chats.listChatEvents(humeChatId, pageRequest, {
+        maxRetries: 0,
+      })
+    )
+  },
+
+  listChatGroupEvents(humeChatGroupId) {
+    const client = new HumeClient({ apiKey: env.HUME_API_KEY })
+
+    return listAllChatEvents(pageRequest =>
+      client.empathicVoice.chatGroups.listChatGroupEvents(
+        humeChatGroupId,
+        pageRequest,
+        { maxRetries: 0 }
+      )
+    )
+  },
+}
+
+/**
+ * Returns the local stand-in when `NEXT_PUBLIC_HUME_MODE` is set to `fake` so
+ * interviews can be developed and tested without network access
+ */
+export function getHumeApi() {
+  return clientEnv.NEXT_PUBLIC_HUME_MODE === "fake" ? fakeHumeApi : liveHumeApi
+}
+
+export async function fetchHumeAccessToken() {
+  return getHumeApi().fetchAccessToken()
+}
+
+/**
+ * Fetches every event of a chat. This is not cached since transcripts are
+ * stored in our own database once fetched, and a cached result of a chat
+ * that was still in progress would never include the rest of it.
+ */
 export async function fetchChatMessages(humeChatId: string) {
-  "use cache"
+  return getHumeApi().listChatEvents(humeChatId)
+}
 
-  const client = new HumeClient({ apiKey: env.HUME_API_KEY })
-  const allChatEvents: ReturnChatEvent[] = []
-  const chatEventsIterator = await client.empathicVoice.chats.listChatEvents(
-    humeChatId,
-    { pageNumber: 0, pageSize: 100 }
-  )
+export async function fetchChatGroupMessages(humeChatGroupId: string) {
+  return getHumeApi().listChatGroupEvents(humeChatGroupId)
+}
+
+async function listAllChatEvents(
+  fetchPage: (pageRequest: {
+    pageNumber: number
+    pageSize: number
+    ascendingOrder: boolean
+  }) => Promise<{ data: ReturnChatEvent[] }>
+) {
+  const events = new Map<string, ReturnChatEvent>()
 
-  for await (const chatEvent of chatEventsIterator) {
-    allChatEvents.push(chatEvent)
+  // Pages are requested one at a time instead of iterating the SDK pager so
+  // each page can be retried on its own
+  for (let pageNumber = 0; ; pageNumber++) {
+    const page = await withRetries(
+      () =>
+        fetchPage({
+          pageNumber,
+          pageSize: CHAT_EVENTS_PAGE_SIZE,
+          ascendingOrder: true,
+        }),
+      {
+        attempts: CHAT_EVENTS_PAGE_ATTEMPTS,
+        shouldRetry: isTransientHumeError,
+      }
+    )
+    const newEvents = page.data.filter(event => !events.has(event.id))
+    newEvents.forEach(event => events.set(event.id, event))
+
+    // A page with nothing new also ends the loop in case the API keeps
+    // returning the last page for page numbers past the end
+    if (page.data.length < CHAT_EVENTS_PAGE_SIZE || newEvents.length === 0) {
+      break
+    }
   }
 
-  return allChatEvents
+  return [...events.values()].sort((a, b) => a.timestamp - b.timestamp)
+}
+
+// Timeouts, rate limits, server errors and failed requests without a status
+// code are worth retrying, while other errors (e.g. an unknown chat) are not
+function isTransientHumeError(error: unknown) {
+  if (error instanceof HumeTimeoutError) return true
+  if (!(error instanceof HumeError)) return false
+
+  const { statusCode } = error
+  return (
+    statusCode == null ||
+    statusCode === 408 ||
+    statusCode === 429 ||
+    statusCode >= 500
+  )
 }
@@ -4,26 +4,29 @@ import { JsonMessage, ReturnChatEvent } from "hume/api/resources/empathicVoice"
 type Message = JsonMessage | ConnectionMessage | ReturnChatEvent
 
 export function condenseChatMessages(messages: Message[]) {
-  return messages.reduce((acc, message) => {
-    const data = getChatEventData(message) ?? getJsonMessageData(message)
-    if (data == null || data.content == null) {
-      return acc
-    }
+  return messages.reduce(
+    (acc, message) => {
+      const data = getChatEventData(message) ?? getJsonMessageData(message)
+      if (data == null || data.content == null) {
+        return acc
+      }
+
+      const lastMessage = acc.at(-1)
+      if (lastMessage == null) {
+        acc.push({ isUser: data.isUser, content: [data.content] })
+        return acc
+      }
+
+      if (lastMessage.isUser === data.isUser) {
+        lastMessage.content.push(data.content)
+      } else {
+        acc.push({ isUser: data.isUser, content: [data.content] })
+      }
 
-    const lastMessage = acc.at(-1)
-    if (lastMessage == null) {
-      acc.push({ isUser: data.isUser, content: [data.content] })
       return acc
-    }
-
-    if (lastMessage.isUser === data.isUser) {
-      lastMessage.content.push(data.content)
-    } else {
-      acc.push({ isUser: data.isUser, content: [data.content] })
-    }
-
-    return acc
-  }, [] as { isUser: boolean; content: string[] }[])
+    },
+    [] as { isUser: boolean; content: string[] }[]
+  )
 }
 
 function getJsonMessageData(message: Message) {
@@ -0,0 +1,144 @@
+import { db } from "@/drizzle/db"
+import { InterviewTable } from "@/drizzle/schema"
+import { eq, SQL } from "drizzle-orm"
+import { ReturnChatEvent } from "hume/api/resources/empathicVoice"
+import type { HumeApi } from "../api"
+import {
+  createFakeChatId,
+  FakeChat,
+  getFakeChatGroupConnectedAt,
+  getFakeChatScriptTimeline,
+  parseFakeChatId,
+} from "./script"
+
+type FakeChatInterview = Pick<
+  typeof InterviewTable.$inferSelect,
+  "humeChatId" | "durationSeconds" | "endedAt"
+>
+
+export const fakeHumeApi: HumeApi = {
+  async fetchAccessToken() {
+    return "fake-access-token"
+  },
+
+  async listChatEvents(humeChatId) {
+    const chats = parseFakeChatId(humeChatId)
+    if (chats == null) return []
+
+    const interview = await getFakeChatInterview(
+      eq(InterviewTable.humeChatId, humeChatId)
+    )
+    const chatEndedAt = getFakeChatEndTimes(chats, interview)
+
+    return listFakeChatEvents(
+      chats,
+      chats.length - 1,
+      chatEndedAt[chats.length - 1]
+    )
+  },
+
+  async listChatGroupEvents(humeChatGroupId) {
+    const connectedAt = getFakeChatGroupConnectedAt(humeChatGroupId)
+    if (connectedAt == null) return []
+
+    // The interview stores the latest chat of the group, which lists the
+    // earlier ones
+    const interview = await getFakeChatInterview(
+      eq(InterviewTable.humeChatGroupId, humeChatGroupId)
+    )
+    const latestChats =
+      interview?.humeChatId == null
+        ? null
+        : parseFakeChatId(interview.humeChatId)
+    const chats = latestChats ?? [{ connectedAt, endedAt: null }]
+    const chatEndedAt = getFakeChatEndTimes(chats, interview)
+
+    return chats.flatMap((_, index) =>
+      listFakeChatEvents(chats, index, chatEndedAt[index])
+    )
+  },
+}
+
+function listFakeChatEvents(
+  chats: FakeChat[],
+  index: number,
+  endedAt: number
+) {
+  const { connectedAt } = chats[index]
+  const chatId = createFakeChatId(chats.slice(0, index), connectedAt)
+
+  return getFakeChatScriptTimeline(connectedAt)
+    .filter(({ sentAt }) => sentAt <= endedAt)
+    .map(
+      (message, messageIndex): ReturnChatEvent => ({
+        id: `${chatId}-${messageIndex}`,
+        chatId,
+        timestamp: message.sentAt,
+        role: message.role === "user" ? "USER" : "AGENT",
+        type: message.role === "user" ? "USER_MESSAGE" : "AGENT_MESSAGE",
+        messageText: message.text,
+        emotionFeatures:
+          message.emotions == null
+            ? undefined
+            : JSON.stringify(capitalizeKeys(message.emotions)),
+      })
+    )
+}
+
+/**
+ * Returns when each chat stopped playing the script. A chat ends when it was
+ * closed or when the next chat connected, and the latest chat ends with the
+ * interview or once the recorded duration runs out. Nothing past the current
+ * time has been said yet.
+ */
+function getFakeChatEndTimes(
+  chats: FakeChat[],
+  interview: FakeChatInterview | undefined
+) {
+  const now = Date.now()
+  const endTimes = chats.map((chat, index) =>
+    Math.min(
+      chat.endedAt?.getTime() ?? now,
+      chats[index + 1]?.connectedAt.getTime() ?? now,
+      now
+    )
+  )
+  if (interview == null) return endTimes
+
+  const lastChat = chats[chats.length - 1]
+  const previousChatsMs = chats
+    .slice(0, -1)
+    .reduce(
+      (total, chat, index) =>
+        total + Math.max(0, endTimes[index] - chat.connectedAt.getTime()),
+      0
+    )
+  const durationEndedAt =
+    lastChat.connectedAt.getTime() +
+    interview.durationSeconds * 1000 -
+    previousChatsMs
+  endTimes[endTimes.length - 1] = Math.min(
+    endTimes[endTimes.length - 1],
+    durationEndedAt,
+    interview.endedAt?.getTime() ?? now
+  )
+
+  return endTimes
+}
+
+async function getFakeChatInterview(where: SQL) {
+  return db.query.InterviewTable.findFirst({
+    columns: { humeChatId: true, durationSeconds: true, endedAt: true },
+    where,
+  })
+}
+
+// The chat events API reports capitalized expression names
+function capitalizeKeys(emotions: Record<string, number | undefined>) {
+  return Object.fromEntries(
+    Object.entries(emotions).map(([emotion, intensity]) => [
+      `${emotion.charAt(0).toUpperCase()}${emotion.slice(1)}`,
+      intensity,
+    ])
+  )
+}
@@ -0,0 +1,213 @@
+import { EmotionScores } from "hume/api/resources/empathicVoice"
+
+const FAKE_CHAT_ID_PREFIX = "fake-chat-"
+const FAKE_CHAT_GROUP_ID_PREFIX = "fake-chat-group-"
+
+export type FakeChatScriptMessage = {
+  role: "assistant" | "user"
+  text: string
+  // Time since the previous message, or since connecting for the first one
+  delaySeconds: number
+  emotions?: Partial<EmotionScores>
+}
+
+/**
+ * The conversation played by the local Hume stand-in. It includes a
+ * behavioral question, filler words and hedging so every part of the
+ * interview feedback has something to work with.
+ */
+export const fakeChatScript: FakeChatScriptMessage[] = [
+  {
+    role: "assistant",
+    text: "Hi, thanks for joining me today. To start, can you tell me a little about yourself and your current role?",
+    delaySeconds: 2,
+  },
+  {
+    role: "user",
+    text: "Sure. Um, I'm a software engineer and I've been working on a web application for about three years now, mostly on the frontend but also some backend work.",
+    delaySeconds: 3,
+    emotions: {
+      calmness: 0.42,
+      determination: 0.38,
+      anxiety: 0.31,
+      interest: 0.45,
+    },
+  },
+  {
+    role: "assistant",
+    text: "Great. Tell me about a time you had to deal with a difficult technical problem under a tight deadline.",
+    delaySeconds: 4,
+  },
+  {
+    role: "user",
+    text: "At my previous job we had a checkout page that was timing out right before a big launch. I was responsible for fixing it before the release. I think I, uh, started by profiling the slow queries and then I introduced caching for the product data. As a result we reduced the load time by 60 percent and launched on time.",
+    delaySeconds: 5,
+    emotions: {
+      calmness: 0.55,
+      determination: 0.61,
+      anxiety: 0.18,
+      concentration: 0.52,
+      interest: 0.5,
+    },
+  },
+  {
+    role: "assistant",
+    text: "That's a solid result. How did you make sure the caching didn't serve stale data?",
+    delaySeconds: 4,
+  },
+  {
+    role: "user",
+    text: "Hmm, I guess we kind of relied on short expiry times at first. Maybe that wasn't ideal, but later we added invalidation when products were updated.",
+    delaySeconds: 6,
+    emotions: {
+      calmness: 0.33,
+      determination: 0.29,
+      anxiety: 0.44,
+      doubt: 0.4,
+      interest: 0.36,
+    },
+  },
+  {
+    role: "assistant",
+    text: "Understood. Last question: why are you interested in this position?",
+    delaySeconds: 4,
+  },
+  {
+    role: "user",
+    text: "I'm really excited about the product and I want to grow into a role where I can own larger features end to end, which this position offers.",
+    delaySeconds: 3,
+    emotions: {
+      calmness: 0.6,
+      determination: 0.66,
+      anxiety: 0.12,
+      excitement: 0.58,
+      interest: 0.7,
+    },
+  },
+  {
+    role: "assistant",
+    text: "Thank you, that's all the questions I have. You'll receive your feedback shortly.",
+    delaySeconds: 3,
+  },
+]
+
+// Expressions the script does not mention are reported as not detected
+const EMPTY_EMOTION_SCORES: EmotionScores = {
+  admiration: 0,
+  adoration: 0,
+  aestheticAppreciation: 0,
+  amusement: 0,
+  anger: 0,
+  anxiety: 0,
+  awe: 0,
+  awkwardness: 0,
+  boredom: 0,
+  calmness: 0,
+  concentration: 0,
+  confusion: 0,
+  contemplation: 0,
+  contempt: 0,
+  contentment: 0,
+  craving: 0,
+  desire: 0,
+  determination: 0,
+  disappointment: 0,
+  disgust: 0,
+  distress: 0,
+  doubt: 0,
+  ecstasy: 0,
+  embarrassment: 0,
+  empathicPain: 0,
+  entrancement: 0,
+  envy: 0,
+  excitement: 0,
+  fear: 0,
+  guilt: 0,
+  horror: 0,
+  interest: 0,
+  joy: 0,
+  love: 0,
+  nostalgia: 0,
+  pain: 0,
+  pride: 0,
+  realization: 0,
+  relief: 0,
+  romance: 0,
+  sadness: 0,
+  satisfaction: 0,
+  shame: 0,
+  surpriseNegative: 0,
+  surprisePositive: 0,
+  sympathy: 0,
+  tiredness: 0,
+  triumph: 0,
+}
+
+export function getFakeEmotionScores(emotions: Partial<EmotionScores> = {}) {
+  return { ...EMPTY_EMOTION_SCORES, ...emotions }
+}
+
+/**
+ * A chat of a fake chat group. When it ended is only known for chats that
+ * were closed before the next chat of the group connected.
+ */
+export type FakeChat = { connectedAt: Date; endedAt: Date | null }
+
+// The ID of a chat lists the earlier chats of its group, since the fake Hume
+// API keeps no state between requests and finds every chat of a group
+// through the latest one
+export function createFakeChatId(previousChats: FakeChat[], connectedAt: Date) {
+  const chats = previousChats.map(chat =>
+    chat.endedAt == null
+      ? `${chat.connectedAt.getTime()}`
+      : `${chat.connectedAt.getTime()}-${chat.endedAt.getTime()}`
+  )
+
+  return `${FAKE_CHAT_ID_PREFIX}${[...chats, connectedAt.getTime()].join("_")}`
+}
+
+// Named after the first chat of the group
+export function createFakeChatGroupId(connectedAt: Date) {
+  return `${FAKE_CHAT_GROUP_ID_PREFIX}${connectedAt.getTime()}`
+}
+
+/**
+ * Returns the chats of the group up to and including the given chat, or null
+ * if the ID does not belong to a fake chat (e.g. an interview recorded with
+ * the live API)
+ */
+export function parseFakeChatId(chatId: string): FakeChat[] | null {
+  if (!chatId.startsWith(FAKE_CHAT_ID_PREFIX)) return null
+
+  const chats = chatId
+    .slice(FAKE_CHAT_ID_PREFIX.length)
+    .split("_")
+    .map(chat => chat.split("-").map(Number))
+  if (chats.some(times => times.some(Number.isNaN))) return null
+
+  return chats.map(([connectedAt, endedAt], index) => ({
+    connectedAt: new Date(connectedAt),
+    endedAt:
+      endedAt == null || index === chats.length - 1 ? null : new Date(endedAt),
+  }))
+}
+
+export function getFakeChatGroupConnectedAt(chatGroupId: string) {
+  if (!chatGroupId.startsWith(FAKE_CHAT_GROUP_ID_PREFIX)) return null
+
+  const time = Number(chatGroupId.slice(FAKE_CHAT_GROUP_ID_PREFIX.length))
+  return Number.isNaN(time) ? null : new Date(time)
+}
+
+/**
+ * Calculates when each message of the script is sent after connecting, so
+ * the client and the server fakes agree on the timing of the conversation
+ */
+export function getFakeChatScriptTimeline(connectedAt: Date) {
+  let offsetMs = 0
+
+  return fakeChatScript.map(message => {
+    offsetMs += message.delaySeconds * 1000
+    return { ...message, offsetMs, sentAt: connectedAt.getTime() + offsetMs }
+  })
+}
@@ -0,0 +1,53 @@
+"use client"
+
+import { VoiceContextType } from "@humeai/voice-react"
+import { createContext, useContext } from "react"
+
+/**
+ * The parts of `useVoice` the interview UI relies on, so a voice session can
+ * be served by either Hume or the local stand-in
+ */
+export type VoiceSession = Pick<
+  VoiceContextType,
+  | "connect"
+  | "disconnect"
+  | "readyState"
+  | "chatMetadata"
+  | "messages"
+  | "fft"
+  | "micFft"
+  | "isMuted"
+  | "mute"
+  | "unmute"
+  | "callDurationTimestamp"
+> & {
+  /** How the last connection closed, `null` until it has closed */
+  closeEvent: VoiceSessionCloseEvent | null
+}
+
+export type VoiceSessionCloseEvent = { code: number; reason: string }
+
+// WebSocket close code for a call that was ended on purpose, either by the
+// user or by the interviewer hanging up
+const NORMAL_CLOSURE_CODE = 1000
+
+/**
+ * Whether a voice session closed because the connection was lost rather than
+ * the call being ended
+ */
+export function isAbnormalClose(closeEvent: VoiceSessionCloseEvent) {
+  return closeEvent.code !== NORMAL_CLOSURE_CODE
+}
+
+export const VoiceSessionContext = createContext<VoiceSession | null>(null)
+
+export function useVoiceSession() {
+  const session = useContext(VoiceSessionContext)
+  if (session == null) {
+    throw new Error(
+      "useVoiceSession must be used within a VoiceSessionProvider"
+    )
+  }
+
+  return session
+}